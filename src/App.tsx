@@ -1,16 +1,29 @@
 import { Routes, Route } from 'react-router-dom'
 import { Toaster } from '@/components/ui/sonner'
 import Layout from './components/Layout'
+import { LimitOrderMonitor } from './components/LimitOrderMonitor'
+import { ExitRuleMonitor } from './components/ExitRuleMonitor'
+import { DcaMonitor } from './components/DcaMonitor'
+import { WalletProvider } from './contexts/WalletContext'
 import HomePage from './pages/HomePage'
 import NetworkPage from './pages/NetworkPage'
 import TokenPage from './pages/TokenPage'
 import TradePage from './pages/TradePage'
 import TokenListPage from './pages/TokenListPage'
+import HistoryPage from './pages/HistoryPage'
+import PortfolioPage from './pages/PortfolioPage'
+import MaintenancePage from './pages/MaintenancePage'
+import WalletsPage from './pages/WalletsPage'
+import SettingsPage from './pages/SettingsPage'
+import DcaPage from './pages/DcaPage'
 
 function App() {
   return (
-    <>
+    <WalletProvider>
       <Toaster position="top-center" />
+      <LimitOrderMonitor />
+      <ExitRuleMonitor />
+      <DcaMonitor />
       <Layout>
         <Routes>
           <Route path="/" element={<HomePage />} />
@@ -18,9 +31,15 @@ function App() {
           <Route path="/networks/:networkId/tokens/:tokenId" element={<TokenPage />} />
           <Route path="/trade/:networkId/:token" element={<TradePage />} />
           <Route path="/tokens" element={<TokenListPage />} />
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/portfolio" element={<PortfolioPage />} />
+          <Route path="/maintenance" element={<MaintenancePage />} />
+          <Route path="/wallets" element={<WalletsPage />} />
+          <Route path="/settings" element={<SettingsPage />} />
+          <Route path="/dca" element={<DcaPage />} />
         </Routes>
       </Layout>
-    </>
+    </WalletProvider>
   )
 }
 
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { useCluster } from "@/hooks/use-cluster";
+import { CLUSTER_LABELS, ClusterId } from "@/lib/cluster";
+import { cn } from "@/lib/utils";
+
+const clusterClassName: Record<ClusterId, string> = {
+  mainnet: "bg-green-500",
+  devnet: "bg-yellow-500",
+  custom: "bg-blue-500",
+};
+
+export function ClusterSelector() {
+  const { cluster, setCluster } = useCluster();
+  const [customUrl, setCustomUrl] = useState(cluster.customUrl);
+
+  useEffect(() => {
+    setCustomUrl(cluster.customUrl);
+  }, [cluster.customUrl]);
+
+  const applyCustomUrl = () => {
+    if (customUrl.trim() && customUrl !== cluster.customUrl) {
+      setCluster({ ...cluster, customUrl: customUrl.trim() });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className={cn("w-2 h-2 rounded-full", clusterClassName[cluster.id])} title={`Connected to ${CLUSTER_LABELS[cluster.id]}`} />
+      <select
+        value={cluster.id}
+        onChange={(e) => setCluster({ ...cluster, id: e.target.value as ClusterId })}
+        className="dark:bg-input/30 border-input h-8 rounded-md border bg-transparent px-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      >
+        {(Object.keys(CLUSTER_LABELS) as ClusterId[]).map((id) => (
+          <option key={id} value={id}>
+            {CLUSTER_LABELS[id]}
+          </option>
+        ))}
+      </select>
+      {cluster.id === "custom" && (
+        <input
+          type="url"
+          value={customUrl}
+          onChange={(e) => setCustomUrl(e.target.value)}
+          onBlur={applyCustomUrl}
+          onKeyDown={(e) => e.key === "Enter" && applyCustomUrl()}
+          placeholder="http://127.0.0.1:8899"
+          className="dark:bg-input/30 border-input h-8 w-56 rounded-md border bg-transparent px-2 text-sm font-mono outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react";
+import Decimal from "decimal.js";
+import { toast } from "sonner";
+import { useWallet } from "@/hooks/use-wallet";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useTrade } from "@/hooks/use-trade";
+import { isTradingSupported } from "@/lib/cluster";
+import {
+  claimDcaRun,
+  DCA_SCHEDULES_UPDATED_EVENT,
+  DcaRun,
+  DcaSchedule,
+  finishDcaRun,
+  getDcaSchedules,
+  isDcaPriceInBounds,
+} from "@/lib/dca";
+import { getTokenPricesUsd } from "@/lib/prices";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+
+const TICK_INTERVAL_MS = 15_000;
+// Buys spend a fixed SOL amount and sells receive one, so neither is sized against the token balance
+const UNUSED_TOKEN_BALANCE = new Decimal(0);
+
+interface TokenDcaExecutorProps {
+  schedules: DcaSchedule[];
+  now: number;
+}
+
+// Runs one token's due schedules, one at a time, through the same pipeline as limit orders
+function TokenDcaExecutor({ schedules, now }: TokenDcaExecutorProps) {
+  const { tokenAddress, tokenSymbol, tokenDecimals } = schedules[0];
+  const { executeMarketOrder } = useTrade(tokenAddress, UNUSED_TOKEN_BALANCE, tokenDecimals);
+  const { signer } = useWallet();
+  const { paper } = usePaperTrading();
+  const executing = useRef(false);
+
+  useEffect(() => {
+    if (executing.current) return;
+
+    const schedule = schedules.find((candidate) => {
+      if (candidate.status !== "active" || candidate.nextRunAt > now || candidate.paper !== paper) return false;
+      // Live schedules wait while they cannot trade, or while another wallet is the signer; the runs this costs are
+      // handled as missed
+      return candidate.paper || (signer !== null && isTradingSupported() && candidate.walletAddress === signer.publicKey.toBase58());
+    });
+    if (!schedule) return;
+
+    const execute = async () => {
+      executing.current = true;
+      try {
+        const claimed = await claimDcaRun(schedule.id);
+        // Another tab ran the slot, or the schedule was paused since it was loaded
+        if (!claimed) return;
+
+        const { previous, schedule: scheduled } = claimed;
+        const missed = scheduled.runs.length - 1 - previous.runs.length;
+        const deferred = scheduled.deferredRuns - previous.deferredRuns;
+        if (missed > 0) {
+          toast.warning(`DCA ${tokenSymbol}: skipped ${missed} missed ${missed === 1 ? "run" : "runs"}`);
+        } else if (deferred > 0) {
+          toast.warning(`DCA ${tokenSymbol}: deferred ${deferred} missed ${deferred === 1 ? "run" : "runs"}`);
+        }
+
+        let run: DcaRun = { ...claimed.run, message: null };
+        try {
+          const prices = await getTokenPricesUsd([tokenAddress, SOL_QUOTE_ASSET.mint]);
+          const priceUsd = prices[tokenAddress] ?? null;
+          const solPriceUsd = prices[SOL_QUOTE_ASSET.mint] ?? null;
+          run = { ...run, priceUsd };
+
+          const bounded = scheduled.minPriceUsd !== null || scheduled.maxPriceUsd !== null;
+          if (bounded && (priceUsd === null || !isDcaPriceInBounds(scheduled, priceUsd))) {
+            run = { ...run, status: "skipped", message: priceUsd === null ? "No price to check the bounds against" : "Price outside bounds" };
+          } else {
+            const solValue = scheduled.amountUnit === "sol" ? scheduled.amount : solPriceUsd ? scheduled.amount / solPriceUsd : null;
+            if (solValue === null) {
+              throw new Error("No SOL price to convert the USD amount with");
+            }
+
+            const fill = await executeMarketOrder({
+              direction: scheduled.direction,
+              value: solValue,
+              // Sells name the SOL to receive, so each one is worth the same amount
+              swapMode: scheduled.direction === "buy" ? "ExactIn" : "ExactOut",
+              signer,
+              paper: scheduled.paper,
+              tokenSymbol,
+              slippageBps: scheduled.slippageBps,
+            });
+            const [solAtomic, tokenAtomic] = scheduled.direction === "buy"
+              ? [fill.inputAmount, fill.outputAmount]
+              : [fill.outputAmount, fill.inputAmount];
+            run = {
+              ...run,
+              status: "filled",
+              solAmount: solAtomic.div(10 ** SOL_QUOTE_ASSET.decimals).toNumber(),
+              tokenAmount: tokenAtomic.div(10 ** tokenDecimals).toNumber(),
+              signature: fill.signature,
+            };
+          }
+        } catch (error) {
+          run = { ...run, status: "failed", message: (error as Error).message };
+        }
+
+        const updated = (await finishDcaRun(scheduled.id, run)) ?? scheduled;
+        const progress = `${updated.runs.length}/${updated.totalRuns}`;
+        if (run.status === "filled") {
+          toast.success(`DCA ${scheduled.direction} ${tokenSymbol} ${progress} filled${run.signature ? `. TX: ${run.signature.slice(0, 8)}...` : " (paper)"}`);
+        } else if (run.status === "skipped") {
+          toast.info(`DCA ${tokenSymbol} ${progress} skipped: ${run.message}`);
+        } else {
+          toast.error(`DCA ${tokenSymbol} ${progress} failed: ${run.message}`);
+        }
+      } catch (error) {
+        console.error("[DcaMonitor] Failed to run schedule:", error);
+      } finally {
+        executing.current = false;
+      }
+    };
+
+    execute();
+  }, [schedules, now, paper, signer, tokenAddress, tokenSymbol, tokenDecimals, executeMarketOrder]);
+
+  return null;
+}
+
+// Runs active DCA schedules from anywhere in the app while it is open
+export function DcaMonitor() {
+  const [schedules, setSchedules] = useState<DcaSchedule[]>([]);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const refreshSchedules = async () => {
+      try {
+        const all = await getDcaSchedules();
+        setSchedules(all.filter((schedule) => schedule.status === "active"));
+      } catch (error) {
+        console.error("[DcaMonitor] Failed to load schedules:", error);
+      }
+    };
+
+    refreshSchedules();
+    window.addEventListener(DCA_SCHEDULES_UPDATED_EVENT, refreshSchedules);
+    return () => window.removeEventListener(DCA_SCHEDULES_UPDATED_EVENT, refreshSchedules);
+  }, []);
+
+  // Background tabs throttle timers, so a tab coming back into view is checked straight away
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") tick();
+    };
+
+    const interval = setInterval(tick, TICK_INTERVAL_MS);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+
+  const schedulesByToken = new Map<string, DcaSchedule[]>();
+  schedules.forEach((schedule) => {
+    schedulesByToken.set(schedule.tokenAddress, [...(schedulesByToken.get(schedule.tokenAddress) ?? []), schedule]);
+  });
+
+  return (
+    <>
+      {[...schedulesByToken.entries()].map(([tokenAddress, tokenSchedules]) => (
+        <TokenDcaExecutor key={tokenAddress} schedules={tokenSchedules} now={now} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DcaSchedulesTable } from "@/components/DcaSchedulesTable";
+import { useDcaSchedules } from "@/hooks/use-dca-schedules";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useSlippage } from "@/hooks/use-slippage";
+import { useWallet } from "@/hooks/use-wallet";
+import { createDcaSchedule, DcaAmountUnit, DcaMissedRunPolicy } from "@/lib/dca";
+import { cn } from "@/lib/utils";
+
+interface DcaPanelProps {
+  token: EnhancedToken;
+}
+
+const INTERVAL_UNITS = { minutes: 60_000, hours: 60 * 60_000 } as const;
+type IntervalUnit = keyof typeof INTERVAL_UNITS;
+
+const inputClassName =
+  "px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary";
+
+// Parses an optional bound: empty means unbounded, anything else must be a positive number
+const parseBound = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+export function DcaPanel({ token }: DcaPanelProps) {
+  const { paper } = usePaperTrading();
+  const { walletAddress } = useWallet();
+  const { slippageBps } = useSlippage(token.address);
+  const { schedules } = useDcaSchedules(token.address);
+  const [direction, setDirection] = useState<"buy" | "sell">("buy");
+  const [amount, setAmount] = useState("");
+  const [amountUnit, setAmountUnit] = useState<DcaAmountUnit>("sol");
+  const [intervalValue, setIntervalValue] = useState("60");
+  const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>("minutes");
+  const [totalRuns, setTotalRuns] = useState("10");
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [missedRunPolicy, setMissedRunPolicy] = useState<DcaMissedRunPolicy>("skip");
+
+  const handleCreate = async () => {
+    const parsedAmount = parseFloat(amount);
+    const intervalMs = parseFloat(intervalValue) * INTERVAL_UNITS[intervalUnit];
+    const runs = parseInt(totalRuns, 10);
+    const minPriceUsd = parseBound(minPrice);
+    const maxPriceUsd = parseBound(maxPrice);
+
+    if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      toast.error("Enter an amount above zero");
+      return;
+    }
+    if (!Number.isFinite(intervalMs) || intervalMs < INTERVAL_UNITS.minutes) {
+      toast.error("The interval must be at least one minute");
+      return;
+    }
+    if (!Number.isInteger(runs) || runs < 1) {
+      toast.error("Enter at least one run");
+      return;
+    }
+    if ([minPriceUsd, maxPriceUsd].some((bound) => bound !== null && (!Number.isFinite(bound) || bound <= 0))) {
+      toast.error("Price bounds must be above zero");
+      return;
+    }
+    if (minPriceUsd !== null && maxPriceUsd !== null && minPriceUsd >= maxPriceUsd) {
+      toast.error("The minimum price must be below the maximum");
+      return;
+    }
+    if (!paper && !walletAddress) {
+      toast.error("Select a wallet to start a live schedule");
+      return;
+    }
+
+    try {
+      await createDcaSchedule({
+        tokenAddress: token.address,
+        tokenSymbol: token.symbol || "Token",
+        tokenDecimals: Number(token.decimals),
+        direction,
+        amount: parsedAmount,
+        amountUnit,
+        intervalMs,
+        totalRuns: runs,
+        minPriceUsd,
+        maxPriceUsd,
+        missedRunPolicy,
+        slippageBps,
+        paper,
+        walletAddress: paper ? null : walletAddress,
+      });
+      setAmount("");
+      toast.success(`DCA ${direction} started${paper ? " (paper)" : ""}`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>DCA</CardTitle>
+          <Link to="/dca" className="text-sm hover:underline">
+            All schedules
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row md:flex-wrap gap-2">
+          <div className="flex gap-2">
+            {(["buy", "sell"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setDirection(option)}
+                className={cn(
+                  "px-4 py-2 rounded-lg font-medium transition-all capitalize",
+                  direction === option
+                    ? option === "buy" ? "bg-green-500/20 text-green-500" : "bg-red-500/20 text-red-500"
+                    : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder={direction === "buy" ? "Spend per run" : "Receive per run"}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className={cn(inputClassName, "md:w-36")}
+          />
+          <select value={amountUnit} onChange={(e) => setAmountUnit(e.target.value as DcaAmountUnit)} className={inputClassName}>
+            <option value="sol">SOL</option>
+            <option value="usd">USD</option>
+          </select>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            every
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={intervalValue}
+              onChange={(e) => setIntervalValue(e.target.value)}
+              className={cn(inputClassName, "w-20")}
+            />
+          </label>
+          <select value={intervalUnit} onChange={(e) => setIntervalUnit(e.target.value as IntervalUnit)} className={inputClassName}>
+            <option value="minutes">minutes</option>
+            <option value="hours">hours</option>
+          </select>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            for
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={totalRuns}
+              onChange={(e) => setTotalRuns(e.target.value)}
+              className={cn(inputClassName, "w-20")}
+            />
+            runs
+          </label>
+        </div>
+        <div className="flex flex-col md:flex-row gap-2">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Min price USD (optional)"
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+            className={cn(inputClassName, "flex-1")}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Max price USD (optional)"
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            className={cn(inputClassName, "flex-1")}
+          />
+          <select
+            value={missedRunPolicy}
+            onChange={(e) => setMissedRunPolicy(e.target.value as DcaMissedRunPolicy)}
+            className={inputClassName}
+          >
+            <option value="skip">Missed runs: skip</option>
+            <option value="defer">Missed runs: defer</option>
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={!amount || !intervalValue || !totalRuns}
+            className="px-4 py-2 rounded-lg font-semibold transition-all bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Start
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The first run happens right away. Schedules only run while the app is open; runs that came due while it
+          was closed or asleep are either skipped, keeping the end time, or deferred, pushing it out. Runs outside the
+          price bounds are skipped and still count. {paper ? "Paper schedules fill against the virtual ledger." : "Live schedules only run while the wallet that started them is unlocked or connected."}
+        </p>
+
+        {schedules.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <p>No DCA schedules for {token.symbol || "this token"}.</p>
+          </div>
+        ) : (
+          <DcaSchedulesTable schedules={schedules} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  cancelDcaSchedule,
+  DcaRunStatus,
+  DcaSchedule,
+  DcaStatus,
+  formatDcaInterval,
+  getDcaFillStats,
+  pauseDcaSchedule,
+  resumeDcaSchedule,
+} from "@/lib/dca";
+import { cn, shortenAddress } from "@/lib/utils";
+
+// Solana mainnet network ID
+const SOLANA_NETWORK_ID = 101;
+
+interface DcaSchedulesTableProps {
+  schedules: DcaSchedule[];
+  // The per-token panel already names the token, the overview page needs a column for it
+  showToken?: boolean;
+}
+
+const statusClassName: Record<DcaStatus, string> = {
+  active: "text-blue-500",
+  paused: "text-yellow-500",
+  completed: "text-green-500",
+  cancelled: "text-muted-foreground",
+};
+
+const runStatusClassName: Record<DcaRunStatus, string> = {
+  filled: "text-green-500",
+  failed: "text-red-500",
+  skipped: "text-muted-foreground",
+  missed: "text-yellow-500",
+};
+
+const formatAmount = (schedule: DcaSchedule) => {
+  return schedule.amountUnit === "usd" ? `$${schedule.amount}` : `${schedule.amount} SOL`;
+};
+
+export function DcaSchedulesTable({ schedules, showToken = false }: DcaSchedulesTableProps) {
+  const runAction = async (action: (id: string) => Promise<void>, id: string) => {
+    try {
+      await action(id);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {showToken && <TableHead>Token</TableHead>}
+            <TableHead>Side</TableHead>
+            <TableHead>Every</TableHead>
+            <TableHead>Runs</TableHead>
+            <TableHead>Next run</TableHead>
+            <TableHead>Avg fill</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {schedules.map((schedule) => {
+            const stats = getDcaFillStats(schedule);
+            const countOf = (status: DcaRunStatus) =>
+              schedule.runs.filter((run) => run.status === status).length;
+            const bounds = [
+              schedule.minPriceUsd !== null && `≥ $${schedule.minPriceUsd}`,
+              schedule.maxPriceUsd !== null && `≤ $${schedule.maxPriceUsd}`,
+            ].filter(Boolean);
+
+            return (
+              <TableRow key={schedule.id}>
+                {showToken && (
+                  <TableCell>
+                    <Link to={`/trade/${SOLANA_NETWORK_ID}/${schedule.tokenAddress}`} className="hover:underline">
+                      {schedule.tokenSymbol}
+                    </Link>
+                  </TableCell>
+                )}
+                <TableCell>
+                  <span className={cn("capitalize", schedule.direction === "buy" ? "text-green-500" : "text-red-500")}>
+                    {schedule.direction}
+                  </span>{" "}
+                  {formatAmount(schedule)}
+                  {bounds.length > 0 && <span className="block text-xs text-muted-foreground">{bounds.join(", ")}</span>}
+                  {schedule.paper && <span className="block text-xs text-yellow-500">Paper</span>}
+                  {schedule.walletAddress && (
+                    <span className="block text-xs text-muted-foreground">Wallet {shortenAddress(schedule.walletAddress)}</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {formatDcaInterval(schedule.intervalMs)}
+                  <span className="block text-xs text-muted-foreground">Missed: {schedule.missedRunPolicy}</span>
+                </TableCell>
+                <TableCell>
+                  <details>
+                    <summary className="cursor-pointer">
+                      {schedule.runs.length}/{schedule.totalRuns}
+                    </summary>
+                    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                      {schedule.runs.map((run, index) => (
+                        <li key={index}>
+                          {new Date(run.executedAt).toLocaleString()}{" "}
+                          <span className={runStatusClassName[run.status]}>{run.status}</span>
+                          {run.priceUsd !== null && ` at $${run.priceUsd.toPrecision(6)}`}
+                          {run.message && `: ${run.message}`}
+                          {run.signature && (
+                            <a
+                              href={`https://solscan.io/tx/${run.signature}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="ml-1 font-mono hover:underline"
+                            >
+                              {run.signature.slice(0, 8)}...
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                  <span className="block text-xs text-muted-foreground">
+                    {stats.fillCount} filled, {countOf("skipped")} skipped, {countOf("missed")} missed, {countOf("failed")} failed
+                    {schedule.deferredRuns > 0 && `, ${schedule.deferredRuns} deferred`}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  {schedule.status === "active" || schedule.status === "paused"
+                    ? new Date(schedule.nextRunAt).toLocaleString()
+                    : "—"}
+                </TableCell>
+                <TableCell>
+                  {stats.averagePriceSol !== null ? `${stats.averagePriceSol.toPrecision(6)} SOL` : "—"}
+                  {stats.fillCount > 0 && (
+                    <span className="block text-xs text-muted-foreground">
+                      {stats.tokenTotal.toLocaleString()} {schedule.tokenSymbol} for {stats.solTotal.toFixed(4)} SOL
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className={cn("capitalize", statusClassName[schedule.status])}>{schedule.status}</TableCell>
+                <TableCell className="text-right space-x-2 whitespace-nowrap">
+                  {schedule.status === "active" && (
+                    <button
+                      onClick={() => runAction(pauseDcaSchedule, schedule.id)}
+                      className="px-3 py-1.5 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm"
+                    >
+                      Pause
+                    </button>
+                  )}
+                  {schedule.status === "paused" && (
+                    <button
+                      onClick={() => runAction(resumeDcaSchedule, schedule.id)}
+                      className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+                    >
+                      Resume
+                    </button>
+                  )}
+                  {(schedule.status === "active" || schedule.status === "paused") && (
+                    <button
+                      onClick={() => runAction(cancelDcaSchedule, schedule.id)}
+                      className="px-3 py-1.5 rounded-lg bg-red-500/10 text-red-500 hover:bg-red-500/20 transition-colors text-sm"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import Decimal from "decimal.js";
+import { toast } from "sonner";
+import { useWallet } from "@/hooks/use-wallet";
+import { useBalance } from "@/hooks/use-balance";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useTrade } from "@/hooks/use-trade";
+import { isTradingSupported } from "@/lib/cluster";
+import {
+  EXIT_RULE_LABELS,
+  EXIT_RULES_UPDATED_EVENT,
+  ExitRule,
+  getExitRules,
+  isExitRuleTriggered,
+  raiseTrailingPeak,
+  updateArmedExitRule,
+  updateExitRule,
+} from "@/lib/exit-rules";
+import { getTokenPricesUsd } from "@/lib/prices";
+
+const SOLANA_NETWORK_ID = 101;
+const PRICE_POLL_INTERVAL_MS = 10_000;
+const RETRY_BASE_DELAY_MS = 15_000;
+const RETRY_MAX_DELAY_MS = 5 * 60_000;
+
+interface TokenExitRuleExecutorProps {
+  rules: ExitRule[];
+  priceUsd: number | undefined;
+}
+
+// Sells one token's position when one of its rules fires, through the same pipeline as limit orders
+function TokenExitRuleExecutor({ rules, priceUsd }: TokenExitRuleExecutorProps) {
+  const { tokenAddress, tokenSymbol, tokenDecimals } = rules[0];
+  const { tokenAtomicBalance, loading, refreshBalance } = useBalance(tokenAddress, tokenDecimals, 9, SOLANA_NETWORK_ID);
+  const { createTransaction, fillQuote } = useTrade(tokenAddress, tokenAtomicBalance, tokenDecimals);
+  const { signer } = useWallet();
+  const { paper } = usePaperTrading();
+  // Rules on one token sell from the same balance, so only one of them runs at a time
+  const executing = useRef(false);
+  // Balance the last sell was sized against; no rule fires until a refresh shows a different amount, or it
+  // would be sized too large
+  const latestBalance = useRef(tokenAtomicBalance);
+  const spentBalance = useRef<Decimal | null>(null);
+  // A sell that fails before anything was sent leaves its rule armed; it is retried after a growing delay instead of
+  // on every price tick
+  const retries = useRef(new Map<string, { attempts: number; retryAt: number }>());
+  const [retryTick, setRetryTick] = useState(0);
+
+  useEffect(() => {
+    latestBalance.current = tokenAtomicBalance;
+  }, [tokenAtomicBalance]);
+
+  useEffect(() => {
+    if (loading || priceUsd === undefined || executing.current || spentBalance.current?.eq(tokenAtomicBalance)) return;
+    // Nothing left to protect, the rules stay armed for when the position is rebuilt
+    if (tokenAtomicBalance.isZero()) return;
+
+    const now = Date.now();
+    const rule = rules.find((candidate) => {
+      if (candidate.status !== "armed" || candidate.paper !== paper) return false;
+      if (!candidate.paper && (!signer || !isTradingSupported())) return false;
+      // A live rule sells from the wallet that armed it, never whichever one happens to be active
+      if (!candidate.paper && candidate.walletAddress !== signer?.publicKey.toBase58()) return false;
+      if ((retries.current.get(candidate.id)?.retryAt ?? 0) > now) return false;
+      return isExitRuleTriggered(candidate, priceUsd);
+    });
+    if (!rule) return;
+
+    const label = EXIT_RULE_LABELS[rule.kind];
+    const execute = async () => {
+      executing.current = true;
+      const sizedAgainst = latestBalance.current;
+      let current = rule;
+      let sent = false;
+      try {
+        // Claimed in storage first, so a rule cancelled since it was loaded never fires
+        const claimed = await updateArmedExitRule(rule, { type: "triggered", price: priceUsd, message: null }, { status: "triggered" });
+        if (!claimed) return;
+        current = claimed;
+        toast.info(`${label} on ${tokenSymbol} triggered at $${priceUsd.toPrecision(6)}`);
+
+        const quote = await createTransaction({
+          direction: "sell",
+          value: rule.sellPercentage,
+          signer: rule.paper ? undefined : signer?.publicKey,
+          slippageBps: rule.slippageBps,
+        });
+        // fillQuote rejects a failed simulation before signing; past that point the sell may land even if it throws
+        sent = !quote.simulation || quote.simulation.success;
+        const fill = await fillQuote({ quote, signer, paper: rule.paper, tokenSymbol });
+
+        spentBalance.current = sizedAgainst;
+        retries.current.delete(rule.id);
+
+        await updateExitRule(current, { type: "filled", price: priceUsd, message: null }, { status: "filled", signature: fill.signature });
+        toast.success(`${label} on ${tokenSymbol} sold ${rule.sellPercentage}%${fill.signature ? `. TX: ${fill.signature.slice(0, 8)}...` : " (paper)"}`);
+
+        // Nothing is left for the remaining rules to protect once the whole position is sold
+        if (rule.sellPercentage >= 100) {
+          const siblings = (await getExitRules(tokenAddress)).filter(
+            (candidate) =>
+              candidate.id !== rule.id &&
+              candidate.status === "armed" &&
+              candidate.paper === rule.paper &&
+              candidate.walletAddress === rule.walletAddress,
+          );
+          await Promise.all(
+            siblings.map((sibling) =>
+              updateArmedExitRule(sibling, { type: "cancelled", price: priceUsd, message: `Position closed by ${label.toLowerCase()}` }, { status: "cancelled" }),
+            ),
+          );
+        }
+      } catch (error) {
+        const message = (error as Error).message;
+        // A rule that was never claimed still belongs to whoever holds it
+        if (current === rule) {
+          toast.error(`${label} on ${tokenSymbol} failed: ${message}`);
+          return;
+        }
+
+        // Retrying a sell that may have landed could sell the position twice, so the user checks it instead
+        if (sent) {
+          spentBalance.current = sizedAgainst;
+          retries.current.delete(rule.id);
+          const failedMessage = `${message}. The sell may have gone through, check the trade history`;
+          await updateExitRule(current, { type: "failed", price: priceUsd, message: failedMessage }, { status: "failed", error: message });
+          toast.error(`${label} on ${tokenSymbol} failed: ${failedMessage}`);
+          return;
+        }
+
+        // Nothing was sent, most likely a quote or simulation failure; disarming on one would leave the position
+        // unprotected
+        const attempts = (retries.current.get(rule.id)?.attempts ?? 0) + 1;
+        const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+        retries.current.set(rule.id, { attempts, retryAt: Date.now() + delayMs });
+        setTimeout(() => setRetryTick((tick) => tick + 1), delayMs);
+
+        const retryMessage = `${message}. Retrying in ${Math.round(delayMs / 1000)}s`;
+        await updateExitRule(current, { type: "failed", price: priceUsd, message: retryMessage }, { status: "armed", error: message });
+        toast.error(`${label} on ${tokenSymbol} failed: ${retryMessage}`);
+      } finally {
+        executing.current = false;
+        // Refreshed only now so the re-render it causes can pick the next rule
+        if (spentBalance.current?.eq(latestBalance.current)) {
+          refreshBalance();
+        }
+      }
+    };
+
+    execute();
+  }, [rules, priceUsd, loading, tokenAtomicBalance, refreshBalance, paper, signer, tokenAddress, tokenSymbol, createTransaction, fillQuote, retryTick]);
+
+  return null;
+}
+
+// Watches every armed exit rule from anywhere in the app and polls Codex prices while any exist
+export function ExitRuleMonitor() {
+  const [rules, setRules] = useState<ExitRule[]>([]);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    const refreshRules = async () => {
+      try {
+        const all = await getExitRules();
+        setRules(all.filter((rule) => rule.status === "armed" || rule.status === "triggered"));
+      } catch (error) {
+        console.error("[ExitRuleMonitor] Failed to load rules:", error);
+      }
+    };
+
+    // A rule still marked triggered on load was interrupted before its sell was confirmed
+    const recoverInterrupted = async () => {
+      const all = await getExitRules();
+      const message = "Interrupted before the sell was confirmed. Check the trade history.";
+      await Promise.all(
+        all
+          .filter((rule) => rule.status === "triggered")
+          .map((rule) => updateExitRule(rule, { type: "failed", price: null, message }, { status: "failed", error: message })),
+      );
+    };
+
+    recoverInterrupted()
+      .catch((error) => console.error("[ExitRuleMonitor] Failed to recover rules:", error))
+      .finally(refreshRules);
+    window.addEventListener(EXIT_RULES_UPDATED_EVENT, refreshRules);
+    return () => window.removeEventListener(EXIT_RULES_UPDATED_EVENT, refreshRules);
+  }, []);
+
+  const watchedMintsKey = [
+    ...new Set(rules.filter((rule) => rule.status === "armed").map((rule) => rule.tokenAddress)),
+  ].join(",");
+
+  useEffect(() => {
+    if (!watchedMintsKey) return;
+
+    const poll = async () => {
+      try {
+        setPrices(await getTokenPricesUsd(watchedMintsKey.split(",")));
+      } catch (error) {
+        console.warn("[ExitRuleMonitor] Failed to fetch prices:", error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, PRICE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [watchedMintsKey]);
+
+  // Trailing stops ratchet up with each new high; the peak is stored so it survives a reload
+  useEffect(() => {
+    rules
+      .filter((rule) => {
+        const price = prices[rule.tokenAddress];
+        return rule.status === "armed" && rule.kind === "trailing-stop" && price !== undefined && price > (rule.peakPriceUsd ?? 0);
+      })
+      .forEach((rule) => {
+        raiseTrailingPeak(rule.id, prices[rule.tokenAddress]).catch((error) =>
+          console.error("[ExitRuleMonitor] Failed to update trailing peak:", error),
+        );
+      });
+  }, [rules, prices]);
+
+  const rulesByToken = new Map<string, ExitRule[]>();
+  rules.forEach((rule) => {
+    rulesByToken.set(rule.tokenAddress, [...(rulesByToken.get(rule.tokenAddress) ?? []), rule]);
+  });
+
+  return (
+    <>
+      {[...rulesByToken.entries()].map(([tokenAddress, tokenRules]) => (
+        <TokenExitRuleExecutor key={tokenAddress} rules={tokenRules} priceUsd={prices[tokenAddress]} />
+      ))}
+    </>
+  );
+}
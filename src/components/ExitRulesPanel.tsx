@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from "react";
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useWallet } from "@/hooks/use-wallet";
+import { usePosition } from "@/hooks/use-position";
+import {
+  createExitRule,
+  describeExitTrigger,
+  EXIT_RULE_LABELS,
+  EXIT_RULES_UPDATED_EVENT,
+  ExitRule,
+  ExitRuleKind,
+  ExitRuleStatus,
+  ExitTriggerType,
+  getExitRules,
+  getExitTriggerPrice,
+  updateArmedExitRule,
+} from "@/lib/exit-rules";
+import { cn, shortenAddress } from "@/lib/utils";
+
+interface ExitRulesPanelProps {
+  token: EnhancedToken;
+  slippageBps?: number;
+}
+
+const statusClassName: Record<ExitRuleStatus, string> = {
+  armed: "text-blue-500",
+  triggered: "text-yellow-500",
+  filled: "text-green-500",
+  failed: "text-red-500",
+  cancelled: "text-muted-foreground",
+};
+
+// Finished rules stay listed for a while so their outcome can be read
+const MAX_FINISHED_RULES = 3;
+
+const formatUsdPrice = (price: number | null) => (price === null ? "—" : `$${price.toPrecision(6)}`);
+
+export function ExitRulesPanel({ token, slippageBps }: ExitRulesPanelProps) {
+  const { paper } = usePaperTrading();
+  const { walletAddress } = useWallet();
+  const { position, marks } = usePosition(token.address);
+  const [rules, setRules] = useState<ExitRule[]>([]);
+  const [kind, setKind] = useState<ExitRuleKind>("stop-loss");
+  const [triggerType, setTriggerType] = useState<ExitTriggerType>("percent");
+  const [triggerValue, setTriggerValue] = useState("");
+  const [sellPercentage, setSellPercentage] = useState("100");
+
+  const refreshRules = useCallback(async () => {
+    try {
+      setRules(await getExitRules(token.address));
+    } catch (error) {
+      console.error("[ExitRulesPanel] Failed to load rules:", error);
+    }
+  }, [token.address]);
+
+  useEffect(() => {
+    refreshRules();
+    window.addEventListener(EXIT_RULES_UPDATED_EVENT, refreshRules);
+    return () => window.removeEventListener(EXIT_RULES_UPDATED_EVENT, refreshRules);
+  }, [refreshRules]);
+
+  const modeRules = rules.filter((rule) => rule.paper === paper);
+  const activeRules = modeRules.filter((rule) => rule.status === "armed" || rule.status === "triggered");
+  const finishedRules = modeRules.filter((rule) => rule.status !== "armed" && rule.status !== "triggered").slice(0, MAX_FINISHED_RULES);
+  const held = (position?.quantity ?? 0) > 0;
+  const entryPriceUsd = position?.averageEntryUsd ?? null;
+  // Percent stop-losses and take-profits are measured from entry, which needs priced fills
+  const percentUnavailable = triggerType === "percent" && kind !== "trailing-stop" && entryPriceUsd === null;
+
+  const handleCreate = async () => {
+    const value = parseFloat(triggerValue);
+    const percentage = parseFloat(sellPercentage);
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error("Enter a trigger above zero");
+      return;
+    }
+    if (triggerType === "percent" && kind !== "take-profit" && value >= 100) {
+      toast.error("A drop of 100% or more can never trigger");
+      return;
+    }
+    if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+      toast.error("Sell percentage must be between 0 and 100");
+      return;
+    }
+    if (!paper && !walletAddress) {
+      toast.error("Select a wallet to arm live rules");
+      return;
+    }
+
+    try {
+      await createExitRule(
+        {
+          tokenAddress: token.address,
+          tokenSymbol: token.symbol || "Token",
+          tokenDecimals: Number(token.decimals),
+          kind,
+          triggerType,
+          triggerValue: value,
+          entryPriceUsd,
+          sellPercentage: percentage,
+          slippageBps,
+          paper,
+          walletAddress: paper ? null : walletAddress,
+        },
+        marks.tokenPriceUsd,
+      );
+      setTriggerValue("");
+      toast.success(`${EXIT_RULE_LABELS[kind]} armed${paper ? " (paper)" : ""}`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleCancel = async (rule: ExitRule) => {
+    // The monitor may have fired the rule since it was rendered
+    if (!(await updateArmedExitRule(rule, { type: "cancelled", price: marks.tokenPriceUsd, message: null }, { status: "cancelled" }))) {
+      toast.error("Rule changed or is no longer armed");
+    }
+  };
+
+  if (!held && modeRules.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg space-y-3 text-sm">
+      <div className="flex justify-between gap-2">
+        <span className="font-medium">Exit rules</span>
+        <span className="text-muted-foreground">Price: {formatUsdPrice(marks.tokenPriceUsd)}</span>
+      </div>
+
+      {[...activeRules, ...finishedRules].map((rule) => (
+        <div key={rule.id} className="space-y-1 border-t border-border pt-2">
+          <div className="flex justify-between gap-2">
+            <span>
+              {EXIT_RULE_LABELS[rule.kind]} {describeExitTrigger(rule)}, sell {rule.sellPercentage}%
+            </span>
+            {rule.status === "armed" && (
+              <button onClick={() => handleCancel(rule)} className="text-xs text-red-500 hover:underline">
+                Cancel
+              </button>
+            )}
+          </div>
+          <details>
+            <summary className={cn("cursor-pointer capitalize text-xs", statusClassName[rule.status])}>
+              {rule.status}
+              {rule.status === "armed" && ` · fires at ${formatUsdPrice(getExitTriggerPrice(rule))}`}
+              {rule.walletAddress && ` · wallet ${shortenAddress(rule.walletAddress)}`}
+            </summary>
+            <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+              {rule.events.map((event, index) => (
+                <li key={index}>
+                  {new Date(event.timestamp).toLocaleTimeString()} {event.type}
+                  {event.price !== null && ` at ${formatUsdPrice(event.price)}`}
+                  {event.message && `: ${event.message}`}
+                </li>
+              ))}
+            </ul>
+          </details>
+          {rule.signature && (
+            <a
+              href={`https://solscan.io/tx/${rule.signature}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block font-mono text-xs hover:underline"
+            >
+              {rule.signature.slice(0, 8)}...
+            </a>
+          )}
+        </div>
+      ))}
+
+      {held && (
+        <div className="space-y-2 border-t border-border pt-2">
+          <div className="flex gap-2">
+            {(Object.keys(EXIT_RULE_LABELS) as ExitRuleKind[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={cn(
+                  "flex-1 py-1.5 px-2 rounded-md text-xs font-medium transition-all",
+                  kind === option ? "bg-primary text-primary-foreground" : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+                )}
+              >
+                {EXIT_RULE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={triggerType}
+              onChange={(e) => setTriggerType(e.target.value as ExitTriggerType)}
+              className="px-2 border border-border rounded-md bg-background text-foreground"
+            >
+              <option value="percent">%</option>
+              <option value="price">USD</option>
+            </select>
+            <Input
+              type="number"
+              placeholder={kind === "trailing-stop" ? "Below peak" : triggerType === "percent" ? "Move from entry" : "Trigger price"}
+              value={triggerValue}
+              onChange={(e) => setTriggerValue(e.target.value)}
+              min="0"
+              step="any"
+            />
+            <Input
+              type="number"
+              placeholder="Sell %"
+              value={sellPercentage}
+              onChange={(e) => setSellPercentage(e.target.value)}
+              min="0"
+              max="100"
+              step="1"
+              className="w-20"
+            />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {percentUnavailable
+              ? "No priced entry recorded for this position, use a USD trigger."
+              : `Entry ${formatUsdPrice(entryPriceUsd)}. Rules are watched while the app is open and sell through Jupiter when hit.`}
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={!triggerValue || !sellPercentage || percentUnavailable}
+            className="w-full py-2 px-4 rounded-lg font-medium transition-all bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Arm {EXIT_RULE_LABELS[kind].toLowerCase()}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
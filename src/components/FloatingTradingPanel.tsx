@@ -1,17 +1,33 @@
 import { useRef, useCallback, useState, useEffect } from "react";
 import { CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { cn } from "@/lib/utils";
+import { cn, formatMintAmount } from "@/lib/utils";
 import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
 import { useBalance } from "@/hooks/use-balance";
-import { useTrade } from "@/hooks/use-trade";
+import { SwapMode, TradeFill, TradeQuote, useTrade } from "@/hooks/use-trade";
+import { useSlippage } from "@/hooks/use-slippage";
 import { useTradingPanel } from "@/contexts/TradingPanelContext";
 import { useDraggable } from "@/hooks/use-draggable";
 import { useResizable } from "@/hooks/use-resizable";
-import { confirmTransaction, createConnection, createKeypair, sendTransaction, signTransaction } from "@/lib/solana";
-import { Keypair, Connection } from "@solana/web3.js";
+import { signTransaction } from "@/lib/solana";
+import { useWallet } from "@/hooks/use-wallet";
 import { X, GripVertical } from "lucide-react";
 import { toast as Toast } from "sonner"
+import { TradeFillSummary } from "@/components/TradeFillSummary";
+import { QuotePreview } from "@/components/QuotePreview";
+import { TwapControls } from "@/components/TwapControls";
+import { SlippageSettings } from "@/components/SlippageSettings";
+import { PriorityFeeSettings } from "@/components/PriorityFeeSettings";
+import { QuoteAssetSelector } from "@/components/QuoteAssetSelector";
+import { PositionSummary } from "@/components/PositionSummary";
+import { ExitRulesPanel } from "@/components/ExitRulesPanel";
+import { PaperTradingToggle } from "@/components/PaperTradingToggle";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { usePriorityFee } from "@/hooks/use-priority-fee";
+import { useCluster } from "@/hooks/use-cluster";
+import { useConfig } from "@/hooks/use-config";
+import { CLUSTER_LABELS, getClusterRpcUrl, isTradingSupported } from "@/lib/cluster";
+import { isNativeQuoteAsset, QuoteAsset, SOL_QUOTE_ASSET } from "@/lib/quote-assets";
 
 
 interface FloatingTradingPanelProps {
@@ -26,30 +42,38 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
   const [tradeMode, setTradeMode] = useState<"buy" | "sell">("buy");
   const [buyAmount, setBuyAmount] = useState("");
   const [sellPercentage, setSellPercentage] = useState("");
+  const [swapMode, setSwapMode] = useState<SwapMode>("ExactIn");
+  const [exactOutAmount, setExactOutAmount] = useState("");
+  const [orderType, setOrderType] = useState<"market" | "twap">("market");
+  const [quoteAsset, setQuoteAsset] = useState<QuoteAsset>(SOL_QUOTE_ASSET);
+  const [quote, setQuote] = useState<TradeQuote | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [lastFill, setLastFill] = useState<TradeFill | null>(null);
 
-  const { nativeBalance: solanaBalance, tokenBalance, tokenAtomicBalance, loading, refreshBalance } = useBalance(
+  const {
+    nativeBalance: solanaBalance,
+    tokenBalance,
+    tokenAtomicBalance,
+    quoteBalance,
+    quoteAtomicBalance,
+    heldTokens,
+    loading,
+  } = useBalance(
     token.address,
     Number(token.decimals),
     9,
-    Number(token.networkId)
+    Number(token.networkId),
+    quoteAsset.mint,
+    quoteAsset.decimals
   );
-  const { createTransaction } = useTrade(token.address, tokenAtomicBalance);
-
-  // Get keypair with error handling
-  let keypair: Keypair | undefined;
-  let connection: Connection | undefined;
-  try {
-    const privateKey = import.meta.env.VITE_SOLANA_PRIVATE_KEY;
-    if (!privateKey) {
-      console.warn("VITE_SOLANA_PRIVATE_KEY is not set. Trading functionality will be disabled.");
-    } else {
-      keypair = createKeypair(privateKey);
-      connection = createConnection();
-    }
-  } catch (error) {
-    console.error("Failed to initialize keypair:", error);
-    // keypair and connection will remain undefined
-  }
+  const { createTransaction, executeTransaction, executePaperTransaction } = useTrade(token.address, tokenAtomicBalance, Number(token.decimals), quoteAsset);
+  const { slippage, slippageBps, setSlippage } = useSlippage(token.address);
+
+  const { signer } = useWallet();
+  const { paper } = usePaperTrading();
+  const { priorityFee } = usePriorityFee();
+  const { cluster } = useCluster();
+  const { jupiterReferralAccount } = useConfig();
 
   // Handle dragging - only on header
   useDraggable(headerRef, {
@@ -69,46 +93,84 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
     maxHeight: 900,
   });
 
-  const handleTrade = useCallback(async () => {
-    if (!keypair || !connection) {
-      Toast.error("Wallet not initialized. Please check your VITE_SOLANA_PRIVATE_KEY configuration.");
+  // Any change to the trade inputs invalidates the quote the user is looking at
+  useEffect(() => {
+    setQuote(null);
+  }, [tradeMode, buyAmount, sellPercentage, swapMode, exactOutAmount, quoteAsset, slippageBps, orderType, priorityFee]);
+
+  const handleQuote = useCallback(async () => {
+    if (!signer && !paper) {
+      Toast.error("No signer available. Unlock the keystore or connect a wallet.");
       return;
     }
 
-    const toastId = Toast.loading("Submitting trade request...");
+    const toastId = Toast.loading("Fetching quote...");
     try {
-      const transaction = await createTransaction({
+      const nextQuote = await createTransaction({
         direction: tradeMode,
-        value: tradeMode === "buy" ? parseFloat(buyAmount) : parseFloat(sellPercentage),
-        signer: keypair.publicKey,
+        value: swapMode === "ExactOut"
+          ? parseFloat(exactOutAmount)
+          : tradeMode === "buy" ? parseFloat(buyAmount) : parseFloat(sellPercentage),
+        signer: paper ? undefined : signer?.publicKey,
+        slippageBps,
+        swapMode,
       });
+      setQuote(nextQuote);
+      Toast.dismiss(toastId);
+    } catch (error) {
+      Toast.error((error as Error).message, { id: toastId });
+    }
+  }, [tradeMode, buyAmount, sellPercentage, swapMode, exactOutAmount, slippageBps, createTransaction, signer, paper]);
 
-      Toast.loading("Signing transaction...", { id: toastId });
-      const signedTransaction = signTransaction(keypair, transaction);
-
-      Toast.loading("Sending transaction...", { id: toastId });
-      const signature = await sendTransaction(signedTransaction, connection);
+  const handleConfirm = useCallback(async () => {
+    if (!quote || (!signer && !paper)) {
+      Toast.error("No signer available. Unlock the keystore or connect a wallet.");
+      return;
+    }
 
-      Toast.loading("Confirming transaction...", { id: toastId });
-      const confirmation = await confirmTransaction(signature, connection);
+    setSubmitting(true);
+    const toastId = Toast.loading(paper ? "Filling paper trade..." : "Signing transaction...");
+    try {
+      let fill: TradeFill;
+      if (paper) {
+        fill = await executePaperTransaction({ order: quote.order, tokenSymbol: tokenSymbol || "Token" });
+      } else {
+        if (!signer || !quote.transaction) {
+          throw new Error("Quote has no transaction to sign");
+        }
+        const signedTransaction = await signTransaction(signer, quote.transaction);
 
-      if (confirmation.value.err) {
-        throw new Error("Trade failed");
+        Toast.loading("Executing trade...", { id: toastId });
+        fill = await executeTransaction({
+          order: quote.order,
+          signedTransaction,
+          tokenSymbol: tokenSymbol || "Token",
+          feeApplied: quote.priorityFee?.applied ?? false,
+          onStage: (stage) => Toast.loading(`Transaction ${stage}...`, { id: toastId }),
+        });
       }
-      Toast.success(`Trade successful! TX: ${signature.slice(0, 8)}...`, { id: toastId });
 
-      // Refresh balance after 1 second
-      setTimeout(refreshBalance, 1000);
+      setLastFill(fill);
+      setQuote(null);
+      Toast.success(
+        `Paid ${formatMintAmount(fill.inputAmount, fill.inputMint, token, [quoteAsset])}, received ${formatMintAmount(fill.outputAmount, fill.outputMint, token, [quoteAsset])}${fill.signature ? `. TX: ${fill.signature.slice(0, 8)}...` : " (paper)"}`,
+        { id: toastId },
+      );
 
       // Reset form
       setBuyAmount("");
       setSellPercentage("");
+      setExactOutAmount("");
     } catch (error) {
       Toast.error((error as Error).message, { id: toastId });
+    } finally {
+      setSubmitting(false);
     }
-  }, [tradeMode, buyAmount, sellPercentage, createTransaction, keypair, connection, refreshBalance]);
+  }, [quote, paper, executeTransaction, executePaperTransaction, signer, token, tokenSymbol, quoteAsset]);
 
   const solBuyAmountPresets = [0.0001, 0.001, 0.01, 0.1];
+  const tokenBuyAmountPresets = [1, 10, 100, 1000];
+  const buyAmountPresets = isNativeQuoteAsset(quoteAsset) ? solBuyAmountPresets : tokenBuyAmountPresets;
   const percentagePresets = [25, 50, 75, 100];
 
   // Check if desktop device
@@ -131,7 +193,8 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
     return null;
   }
 
-  if (!import.meta.env.VITE_SOLANA_PRIVATE_KEY || !import.meta.env.VITE_HELIUS_RPC_URL || !import.meta.env.VITE_JUPITER_REFERRAL_ACCOUNT) {
+  // Paper trades are filled against the virtual ledger, so they need neither a wallet, an RPC URL nor a referral account
+  if (!paper && (!signer || !getClusterRpcUrl(cluster) || !jupiterReferralAccount)) {
     return null;
   }
 
@@ -153,6 +216,11 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
         <div className="flex items-center gap-2">
           <GripVertical className="w-4 h-4 text-muted-foreground" />
           <CardTitle className="text-lg">Trade {tokenSymbol || "Token"}</CardTitle>
+          {paper || !signer ? (
+            <span className="text-xs text-yellow-500">Paper</span>
+          ) : (
+            <span className="text-xs text-muted-foreground">{signer.label}</span>
+          )}
         </div>
         <button
           onClick={toggleVisibility}
@@ -165,11 +233,26 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <PaperTradingToggle />
+
+        {!paper && !isTradingSupported(cluster) && (
+          <div className="p-3 rounded-lg text-sm bg-red-500/10 text-red-500">
+            Jupiter does not serve {CLUSTER_LABELS[cluster.id]}. Switch to Mainnet or use paper trading to trade.
+          </div>
+        )}
+
         <div className="flex justify-between p-3 bg-muted/30 rounded-lg">
           <span className="text-sm text-muted-foreground">SOL Balance:</span>
           <span className="font-semibold">{solanaBalance.toFixed(4)} SOL</span>
         </div>
 
+        {!isNativeQuoteAsset(quoteAsset) && (
+          <div className="flex justify-between p-3 bg-muted/30 rounded-lg">
+            <span className="text-sm text-muted-foreground">{quoteAsset.symbol} Balance:</span>
+            <span className="font-semibold">{quoteBalance.toLocaleString()} {quoteAsset.symbol}</span>
+          </div>
+        )}
+
         {tokenSymbol && (
           <div className="flex justify-between p-3 bg-muted/30 rounded-lg">
             <span className="text-sm text-muted-foreground">{tokenSymbol} Balance:</span>
@@ -177,6 +260,10 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
           </div>
         )}
 
+        <PositionSummary token={token} />
+
+        <ExitRulesPanel token={token} slippageBps={slippageBps} />
+
         <div className="flex gap-2">
           <button
             onClick={() => setTradeMode("buy")}
@@ -202,11 +289,77 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
           </button>
         </div>
 
-        {tradeMode === "buy" ? (
+        <QuoteAssetSelector
+          value={quoteAsset}
+          heldTokens={heldTokens}
+          excludeMint={token.address}
+          onChange={setQuoteAsset}
+        />
+
+        <div className="flex gap-2">
+          {(["market", "twap"] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => {
+                setOrderType(type);
+                // TWAP slices a fixed input, so it is always Exact In
+                if (type === "twap") setSwapMode("ExactIn");
+              }}
+              className={cn(
+                "flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-all",
+                orderType === type
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+              )}
+            >
+              {type === "market" ? "Market" : "TWAP"}
+            </button>
+          ))}
+        </div>
+
+        {orderType === "market" && (
+          <div className="flex gap-2">
+            {(["ExactIn", "ExactOut"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setSwapMode(mode)}
+                className={cn(
+                  "flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-all",
+                  swapMode === mode
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+                )}
+              >
+                {mode === "ExactIn" ? "Exact In" : "Exact Out"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {swapMode === "ExactOut" ? (
+          <div className="space-y-2">
+            <label className="text-sm text-muted-foreground">
+              {tradeMode === "buy" ? `${tokenSymbol || "Token"} to receive` : `${quoteAsset.symbol} to receive`}
+            </label>
+            <Input
+              type="number"
+              placeholder="0.00"
+              value={exactOutAmount}
+              onChange={(e) => setExactOutAmount(e.target.value)}
+              min="0"
+              step="any"
+            />
+            <div className="text-xs text-muted-foreground">
+              Available to spend: {tradeMode === "buy"
+                ? `${quoteBalance.toLocaleString()} ${quoteAsset.symbol}`
+                : `${tokenBalance.toLocaleString()} ${tokenSymbol || "Token"}`}
+            </div>
+          </div>
+        ) : tradeMode === "buy" ? (
           <div className="space-y-2">
-            <label className="text-sm text-muted-foreground">Amount in SOL</label>
+            <label className="text-sm text-muted-foreground">Amount in {quoteAsset.symbol}</label>
             <div className="flex gap-2">
-              {solBuyAmountPresets.map((preset) => (
+              {buyAmountPresets.map((preset) => (
                 <button
                   key={preset}
                   onClick={() => setBuyAmount(preset.toString())}
@@ -230,7 +383,7 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
               step="0.01"
             />
             <div className="text-xs text-muted-foreground">
-              Available: {solanaBalance.toFixed(4)} SOL
+              Available: {quoteBalance.toLocaleString()} {quoteAsset.symbol}
             </div>
           </div>
         ) : (
@@ -269,23 +422,56 @@ export function FloatingTradingPanel({ token }: FloatingTradingPanelProps) {
           </div>
         )}
 
-        <button
-          onClick={handleTrade}
-          disabled={
-            loading ||
-            (tradeMode === "buy" && (!buyAmount || parseFloat(buyAmount) <= 0)) ||
-            (tradeMode === "sell" && (!sellPercentage || parseFloat(sellPercentage) <= 0))
-          }
-          className={cn(
-            "w-full py-3 px-4 rounded-lg font-semibold transition-all",
-            tradeMode === "buy"
-              ? "bg-green-500 hover:bg-green-600 text-white disabled:bg-green-500/30 disabled:text-green-500/50"
-              : "bg-red-500 hover:bg-red-600 text-white disabled:bg-red-500/30 disabled:text-red-500/50",
-            "disabled:cursor-not-allowed"
-          )}
-        >
-          {tradeMode === "buy" ? "Buy" : "Sell"} {tokenSymbol || "Token"}
-        </button>
+        <SlippageSettings slippage={slippage} onChange={setSlippage} />
+
+        {!paper && <PriorityFeeSettings />}
+
+        {orderType === "twap" ? (
+          <TwapControls
+            token={token}
+            quoteAsset={quoteAsset}
+            direction={tradeMode}
+            value={tradeMode === "buy" ? parseFloat(buyAmount) : parseFloat(sellPercentage)}
+            tokenAtomicBalance={tokenAtomicBalance}
+            slippageBps={slippageBps}
+            disabled={loading}
+          />
+        ) : quote ? (
+          <QuotePreview
+            order={quote.order}
+            simulation={quote.simulation}
+            transferFee={quote.transferFee}
+            priorityFee={quote.priorityFee}
+            token={token}
+            direction={tradeMode}
+            quoteAsset={quoteAsset}
+            availableInput={tradeMode === "buy" ? quoteAtomicBalance : tokenAtomicBalance}
+            submitting={submitting}
+            onConfirm={handleConfirm}
+            onCancel={() => setQuote(null)}
+          />
+        ) : (
+          <button
+            onClick={handleQuote}
+            disabled={
+              loading ||
+              (swapMode === "ExactOut" && (!exactOutAmount || parseFloat(exactOutAmount) <= 0)) ||
+              (swapMode === "ExactIn" && tradeMode === "buy" && (!buyAmount || parseFloat(buyAmount) <= 0)) ||
+              (swapMode === "ExactIn" && tradeMode === "sell" && (!sellPercentage || parseFloat(sellPercentage) <= 0))
+            }
+            className={cn(
+              "w-full py-3 px-4 rounded-lg font-semibold transition-all",
+              tradeMode === "buy"
+                ? "bg-green-500 hover:bg-green-600 text-white disabled:bg-green-500/30 disabled:text-green-500/50"
+                : "bg-red-500 hover:bg-red-600 text-white disabled:bg-red-500/30 disabled:text-red-500/50",
+              "disabled:cursor-not-allowed"
+            )}
+          >
+            Review {tradeMode === "buy" ? "Buy" : "Sell"} {tokenSymbol || "Token"}
+          </button>
+        )}
+
+        {lastFill && <TradeFillSummary fill={lastFill} token={token} quoteAsset={quoteAsset} />}
       </div>
 
       {/* Resize handle */}
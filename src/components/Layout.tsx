@@ -1,4 +1,6 @@
 import { ReactNode, useEffect } from 'react'
+import { ClusterSelector } from './ClusterSelector'
+import { WalletSwitcher } from './WalletSwitcher'
 
 interface LayoutProps {
   children: ReactNode
@@ -22,6 +24,10 @@ export default function Layout({ children }: LayoutProps) {
 
   return (
     <>
+      <header className="flex justify-end items-center gap-4 px-6 py-3 border-b border-border">
+        <ClusterSelector />
+        <WalletSwitcher />
+      </header>
       {children}
     </>
   )
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from "react";
+import Decimal from "decimal.js";
+import { toast } from "sonner";
+import { useWallet } from "@/hooks/use-wallet";
+import { useBalance } from "@/hooks/use-balance";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useTrade } from "@/hooks/use-trade";
+import { isTradingSupported } from "@/lib/cluster";
+import {
+  formatOrderPrice,
+  getLimitOrders,
+  getOrderPrice,
+  isLimitOrderExpired,
+  isLimitOrderTriggered,
+  LIMIT_ORDERS_UPDATED_EVENT,
+  LimitOrder,
+  updateLimitOrder,
+  updateOpenLimitOrder,
+} from "@/lib/limit-orders";
+import { getTokenPricesUsd } from "@/lib/prices";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+
+const SOLANA_NETWORK_ID = 101;
+const PRICE_POLL_INTERVAL_MS = 10_000;
+
+interface TokenLimitOrderExecutorProps {
+  orders: LimitOrder[];
+  prices: Record<string, number>;
+}
+
+// Fires one token's triggered orders through the same quote, sign and send pipeline as the panels
+function TokenLimitOrderExecutor({ orders, prices }: TokenLimitOrderExecutorProps) {
+  const { tokenAddress, tokenSymbol, tokenDecimals } = orders[0];
+  const { tokenAtomicBalance, loading, refreshBalance } = useBalance(tokenAddress, tokenDecimals, 9, SOLANA_NETWORK_ID);
+  const { executeMarketOrder } = useTrade(tokenAddress, tokenAtomicBalance, tokenDecimals);
+  const { signer } = useWallet();
+  const { paper } = usePaperTrading();
+  // Orders being executed, so a price tick during confirmation cannot fire them twice
+  const inFlight = useRef(new Set<string>());
+  // Sells are a percentage of the balance, so they run one at a time and never against the balance from
+  // before the previous sell; spentBalance holds that balance until a refresh shows a different amount
+  const sellInFlight = useRef(false);
+  const latestBalance = useRef(tokenAtomicBalance);
+  const spentBalance = useRef<Decimal | null>(null);
+
+  useEffect(() => {
+    latestBalance.current = tokenAtomicBalance;
+  }, [tokenAtomicBalance]);
+
+  useEffect(() => {
+    // Sells are sized against the balance, so nothing fires before it has loaded
+    if (loading) return;
+
+    const execute = async (order: LimitOrder, price: number) => {
+      inFlight.current.add(order.id);
+      if (order.direction === "sell") {
+        sellInFlight.current = true;
+      }
+      const sizedAgainst = latestBalance.current;
+      let current = order;
+      try {
+        // Claimed in storage first, so an order cancelled or edited since it was loaded never fires
+        const claimed = await updateOpenLimitOrder(order, { type: "triggered", price, message: null }, { status: "triggered" });
+        if (!claimed) return;
+        current = claimed;
+        toast.info(`Limit ${order.direction} ${tokenSymbol} triggered at ${formatOrderPrice(price, order.priceUnit)}`);
+
+        const fill = await executeMarketOrder({
+          direction: order.direction,
+          value: order.size,
+          signer,
+          paper: order.paper,
+          tokenSymbol,
+          slippageBps: order.slippageBps,
+        });
+        if (order.direction === "sell") {
+          spentBalance.current = sizedAgainst;
+        }
+
+        await updateLimitOrder(current, { type: "filled", price, message: null }, { status: "filled", signature: fill.signature });
+        toast.success(`Limit ${order.direction} ${tokenSymbol} filled${fill.signature ? `. TX: ${fill.signature.slice(0, 8)}...` : " (paper)"}`);
+      } catch (error) {
+        const message = (error as Error).message;
+        // An order that was never claimed still belongs to whoever holds it
+        if (current !== order) {
+          await updateLimitOrder(current, { type: "failed", price, message }, { status: "failed", error: message });
+        }
+        toast.error(`Limit ${order.direction} ${tokenSymbol} failed: ${message}`);
+      } finally {
+        inFlight.current.delete(order.id);
+        if (order.direction === "sell") {
+          sellInFlight.current = false;
+          // Refreshed only now so the re-render it causes can fire the next sell
+          if (spentBalance.current?.eq(latestBalance.current)) {
+            refreshBalance();
+          }
+        }
+      }
+    };
+
+    orders.forEach((order) => {
+      if (order.status !== "open" || isLimitOrderExpired(order) || inFlight.current.has(order.id)) return;
+      // Orders only fire in the mode they were placed in, so the balance they size against is the right one
+      // and a paper order can never turn into a live trade
+      if (order.paper !== paper) return;
+      // Live orders wait, rather than fail, while they cannot be signed or sent
+      if (!order.paper && (!signer || !isTradingSupported())) return;
+      // A live order spends from the wallet that placed it, never whichever one happens to be active
+      if (!order.paper && order.walletAddress !== signer?.publicKey.toBase58()) return;
+      if (order.direction === "sell" && (sellInFlight.current || spentBalance.current?.eq(tokenAtomicBalance))) return;
+
+      const price = getOrderPrice(order.priceUnit, prices[tokenAddress], prices[SOL_QUOTE_ASSET.mint]);
+      if (price !== null && isLimitOrderTriggered(order, price)) {
+        execute(order, price);
+      }
+    });
+  }, [orders, prices, loading, tokenAtomicBalance, refreshBalance, paper, signer, tokenAddress, tokenSymbol, executeMarketOrder]);
+
+  return null;
+}
+
+// Watches every open limit order from anywhere in the app and polls Codex prices while any exist
+export function LimitOrderMonitor() {
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    const refreshOrders = async () => {
+      try {
+        const all = await getLimitOrders();
+        setOrders(all.filter((order) => order.status === "open" || order.status === "triggered"));
+      } catch (error) {
+        console.error("[LimitOrderMonitor] Failed to load orders:", error);
+      }
+    };
+
+    // An order still marked triggered on load was interrupted before its fill was confirmed
+    const recoverInterrupted = async () => {
+      const all = await getLimitOrders();
+      const message = "Interrupted before the fill was confirmed. Check the trade history.";
+      await Promise.all(
+        all
+          .filter((order) => order.status === "triggered")
+          .map((order) => updateLimitOrder(order, { type: "failed", price: null, message }, { status: "failed", error: message })),
+      );
+    };
+
+    recoverInterrupted()
+      .catch((error) => console.error("[LimitOrderMonitor] Failed to recover orders:", error))
+      .finally(refreshOrders);
+    window.addEventListener(LIMIT_ORDERS_UPDATED_EVENT, refreshOrders);
+    return () => window.removeEventListener(LIMIT_ORDERS_UPDATED_EVENT, refreshOrders);
+  }, []);
+
+  const watchedMintsKey = [
+    ...new Set(orders.filter((order) => order.status === "open").map((order) => order.tokenAddress)),
+  ].join(",");
+
+  useEffect(() => {
+    if (!watchedMintsKey) return;
+
+    const poll = async () => {
+      try {
+        setPrices(await getTokenPricesUsd([...watchedMintsKey.split(","), SOL_QUOTE_ASSET.mint]));
+      } catch (error) {
+        console.warn("[LimitOrderMonitor] Failed to fetch prices:", error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, PRICE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [watchedMintsKey]);
+
+  // Expiry is checked on every price tick, which is frequent enough for minute-level expiries
+  useEffect(() => {
+    orders
+      .filter((order) => order.status === "open" && isLimitOrderExpired(order))
+      .forEach((order) => {
+        updateOpenLimitOrder(order, { type: "expired", price: null, message: null }, { status: "expired" }).catch((error) =>
+          console.error("[LimitOrderMonitor] Failed to expire order:", error),
+        );
+      });
+  }, [orders, prices]);
+
+  const ordersByToken = new Map<string, LimitOrder[]>();
+  orders.forEach((order) => {
+    ordersByToken.set(order.tokenAddress, [...(ordersByToken.get(order.tokenAddress) ?? []), order]);
+  });
+
+  return (
+    <>
+      {[...ordersByToken.entries()].map(([tokenAddress, tokenOrders]) => (
+        <TokenLimitOrderExecutor key={tokenAddress} orders={tokenOrders} prices={prices} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,394 @@
+import { useCallback, useEffect, useState } from "react";
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useWallet } from "@/hooks/use-wallet";
+import { usePosition } from "@/hooks/use-position";
+import {
+  createLimitOrder,
+  formatOrderPrice,
+  getLimitOrders,
+  getOrderPrice,
+  LIMIT_ORDERS_UPDATED_EVENT,
+  LimitOrder,
+  LimitOrderStatus,
+  LimitPriceUnit,
+  updateOpenLimitOrder,
+} from "@/lib/limit-orders";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+import { cn, shortenAddress } from "@/lib/utils";
+
+interface LimitOrdersPanelProps {
+  token: EnhancedToken;
+}
+
+const EXPIRY_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: "Never", ms: null },
+  { label: "1 hour", ms: 60 * 60 * 1000 },
+  { label: "24 hours", ms: 24 * 60 * 60 * 1000 },
+  { label: "7 days", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const statusClassName: Record<LimitOrderStatus, string> = {
+  open: "text-blue-500",
+  triggered: "text-yellow-500",
+  filled: "text-green-500",
+  failed: "text-red-500",
+  cancelled: "text-muted-foreground",
+  expired: "text-muted-foreground",
+};
+
+const inputClassName =
+  "px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary";
+
+const toExpiresAt = (expiryIndex: number) => {
+  const { ms } = EXPIRY_OPTIONS[expiryIndex];
+  return ms === null ? null : Date.now() + ms;
+};
+
+const formatSize = (order: Pick<LimitOrder, "direction" | "size">) => {
+  return order.direction === "buy" ? `${order.size} SOL` : `${order.size}%`;
+};
+
+export function LimitOrdersPanel({ token }: LimitOrdersPanelProps) {
+  const { paper } = usePaperTrading();
+  const { walletAddress } = useWallet();
+  const { marks } = usePosition(token.address);
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [direction, setDirection] = useState<"buy" | "sell">("buy");
+  const [targetPrice, setTargetPrice] = useState("");
+  const [priceUnit, setPriceUnit] = useState<LimitPriceUnit>("usd");
+  const [size, setSize] = useState("");
+  const [expiryIndex, setExpiryIndex] = useState(2);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTargetPrice, setEditTargetPrice] = useState("");
+  const [editSize, setEditSize] = useState("");
+  // -1 keeps the current expiry
+  const [editExpiryIndex, setEditExpiryIndex] = useState(-1);
+
+  const refreshOrders = useCallback(async () => {
+    try {
+      setOrders(await getLimitOrders(token.address));
+    } catch (error) {
+      console.error("[LimitOrdersPanel] Failed to load orders:", error);
+    }
+  }, [token.address]);
+
+  useEffect(() => {
+    refreshOrders();
+    window.addEventListener(LIMIT_ORDERS_UPDATED_EVENT, refreshOrders);
+    return () => window.removeEventListener(LIMIT_ORDERS_UPDATED_EVENT, refreshOrders);
+  }, [refreshOrders]);
+
+  const currentPrice = getOrderPrice(priceUnit, marks.tokenPriceUsd, marks.solPriceUsd);
+
+  const validate = (orderDirection: "buy" | "sell", price: number, amount: number) => {
+    if (!Number.isFinite(price) || price <= 0) {
+      return "Enter a target price above zero";
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return "Enter a size above zero";
+    }
+    if (orderDirection === "sell" && amount > 100) {
+      return "Sell size is a percentage of the balance and cannot exceed 100";
+    }
+    return null;
+  };
+
+  const handleCreate = async () => {
+    const price = parseFloat(targetPrice);
+    const amount = parseFloat(size);
+    const error = validate(direction, price, amount);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (!paper && !walletAddress) {
+      toast.error("Select a wallet to place live orders");
+      return;
+    }
+
+    try {
+      await createLimitOrder({
+        tokenAddress: token.address,
+        tokenSymbol: token.symbol || "Token",
+        tokenDecimals: Number(token.decimals),
+        direction,
+        targetPrice: price,
+        priceUnit,
+        size: amount,
+        expiresAt: toExpiresAt(expiryIndex),
+        paper,
+        walletAddress: paper ? null : walletAddress,
+      });
+      setTargetPrice("");
+      setSize("");
+      toast.success(`Limit ${direction} placed${paper ? " (paper)" : ""}`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const startEditing = (order: LimitOrder) => {
+    setEditingId(order.id);
+    setEditTargetPrice(String(order.targetPrice));
+    setEditSize(String(order.size));
+    setEditExpiryIndex(-1);
+  };
+
+  const handleSaveEdit = async (order: LimitOrder) => {
+    const price = parseFloat(editTargetPrice);
+    const amount = parseFloat(editSize);
+    const error = validate(order.direction, price, amount);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const changes = {
+      targetPrice: price,
+      size: amount,
+      expiresAt: editExpiryIndex === -1 ? order.expiresAt : toExpiresAt(editExpiryIndex),
+    };
+    const message = `Target ${formatOrderPrice(price, order.priceUnit)}, size ${formatSize({ direction: order.direction, size: amount })}`;
+    // The monitor may have fired the order while it was being edited
+    if (!(await updateOpenLimitOrder(order, { type: "edited", price: null, message }, changes))) {
+      toast.error("Order changed or is no longer open");
+    }
+    setEditingId(null);
+  };
+
+  const handleCancel = async (order: LimitOrder) => {
+    if (!(await updateOpenLimitOrder(order, { type: "cancelled", price: null, message: null }, { status: "cancelled" }))) {
+      toast.error("Order changed or is no longer open");
+    }
+  };
+
+  const openCount = orders.filter((order) => order.status === "open").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Limit Orders</CardTitle>
+          {currentPrice !== null && (
+            <span className="text-sm text-muted-foreground">
+              Current: {formatOrderPrice(currentPrice, priceUnit)}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="flex gap-2">
+            {(["buy", "sell"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setDirection(option)}
+                className={cn(
+                  "px-4 py-2 rounded-lg font-medium transition-all capitalize",
+                  direction === option
+                    ? option === "buy" ? "bg-green-500/20 text-green-500" : "bg-red-500/20 text-red-500"
+                    : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder={direction === "buy" ? "Buy at or below" : "Sell at or above"}
+            value={targetPrice}
+            onChange={(e) => setTargetPrice(e.target.value)}
+            className={cn(inputClassName, "flex-1")}
+          />
+          <select value={priceUnit} onChange={(e) => setPriceUnit(e.target.value as LimitPriceUnit)} className={inputClassName}>
+            <option value="usd">USD</option>
+            <option value="sol">{SOL_QUOTE_ASSET.symbol}</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder={direction === "buy" ? "SOL to spend" : "% of balance"}
+            value={size}
+            onChange={(e) => setSize(e.target.value)}
+            className={cn(inputClassName, "md:w-36")}
+          />
+          <select value={expiryIndex} onChange={(e) => setExpiryIndex(Number(e.target.value))} className={inputClassName}>
+            {EXPIRY_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>
+                Expires: {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={!targetPrice || !size}
+            className="px-4 py-2 rounded-lg font-semibold transition-all bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Place
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Orders are watched while the app is open in this browser and fire as market swaps once Codex reports the
+          target price. {paper ? "Paper orders fill against the virtual ledger." : "Live orders only fire while the wallet that placed them is unlocked or connected."}
+        </p>
+
+        {orders.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <p>No limit orders for {token.symbol || "this token"}.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <p className="text-sm text-muted-foreground mb-2">{openCount} open</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Placed</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => {
+                  const editing = editingId === order.id;
+                  return (
+                    <TableRow key={order.id}>
+                      <TableCell>
+                        {new Date(order.createdAt).toLocaleString()}
+                        {order.paper && <span className="block text-xs text-yellow-500">Paper</span>}
+                        {order.walletAddress && (
+                          <span className="block text-xs text-muted-foreground">Wallet {shortenAddress(order.walletAddress)}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={cn("capitalize", order.direction === "buy" ? "text-green-500" : "text-red-500")}>
+                        {order.direction}
+                      </TableCell>
+                      <TableCell>
+                        {editing ? (
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={editTargetPrice}
+                            onChange={(e) => setEditTargetPrice(e.target.value)}
+                            className="w-28 px-2 py-1 border border-border rounded bg-background text-foreground"
+                          />
+                        ) : (
+                          formatOrderPrice(order.targetPrice, order.priceUnit)
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {editing ? (
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={editSize}
+                            onChange={(e) => setEditSize(e.target.value)}
+                            className="w-20 px-2 py-1 border border-border rounded bg-background text-foreground"
+                          />
+                        ) : (
+                          formatSize(order)
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {editing ? (
+                          <select
+                            value={editExpiryIndex}
+                            onChange={(e) => setEditExpiryIndex(Number(e.target.value))}
+                            className="px-2 py-1 border border-border rounded bg-background text-foreground"
+                          >
+                            <option value={-1}>Keep</option>
+                            {EXPIRY_OPTIONS.map((option, index) => (
+                              <option key={option.label} value={index}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        ) : order.expiresAt ? (
+                          new Date(order.expiresAt).toLocaleString()
+                        ) : (
+                          "Never"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <details>
+                          <summary className={cn("cursor-pointer capitalize", statusClassName[order.status])}>
+                            {order.status}
+                          </summary>
+                          <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                            {order.events.map((event, index) => (
+                              <li key={index}>
+                                {new Date(event.timestamp).toLocaleTimeString()} {event.type}
+                                {event.price !== null && ` at ${formatOrderPrice(event.price, order.priceUnit)}`}
+                                {event.message && `: ${event.message}`}
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                        {order.signature && (
+                          <a
+                            href={`https://solscan.io/tx/${order.signature}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block font-mono text-xs hover:underline"
+                          >
+                            {order.signature.slice(0, 8)}...
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        {order.status === "open" && (editing ? (
+                          <>
+                            <button
+                              onClick={() => handleSaveEdit(order)}
+                              className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              className="px-3 py-1.5 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm"
+                            >
+                              Discard
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => startEditing(order)}
+                              className="px-3 py-1.5 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleCancel(order)}
+                              className="px-3 py-1.5 rounded-lg bg-red-500/10 text-red-500 hover:bg-red-500/20 transition-colors text-sm"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import { toast } from "sonner";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { resetPaperLedger } from "@/lib/paper-trading";
+import { cn } from "@/lib/utils";
+
+export function PaperTradingToggle() {
+  const { paper, setPaper } = usePaperTrading();
+
+  const handleReset = async () => {
+    if (!window.confirm("Reset the paper ledger to 10 SOL? Paper history is kept.")) {
+      return;
+    }
+    try {
+      await resetPaperLedger();
+      toast.success("Paper ledger reset");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between gap-2 p-3 rounded-lg text-sm",
+        paper ? "bg-yellow-500/10 text-yellow-500" : "bg-muted/30 text-muted-foreground"
+      )}
+    >
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input type="checkbox" checked={paper} onChange={(e) => setPaper(e.target.checked)} />
+        Paper trading
+      </label>
+      {paper && (
+        <button onClick={handleReset} className="text-xs hover:underline">
+          Reset ledger
+        </button>
+      )}
+    </div>
+  );
+}
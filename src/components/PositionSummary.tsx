@@ -0,0 +1,61 @@
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { usePosition } from "@/hooks/use-position";
+import { cn } from "@/lib/utils";
+
+interface PositionSummaryProps {
+  token: EnhancedToken;
+}
+
+const formatSol = (value: number | null) => (value === null ? "—" : `${value.toFixed(6)} SOL`);
+const formatUsd = (value: number | null) => (value === null ? "—" : `$${value.toLocaleString(undefined, { maximumFractionDigits: 6 })}`);
+
+const pnlClassName = (value: number | null) => {
+  if (value === null || value === 0) return "";
+  return value > 0 ? "text-green-500" : "text-red-500";
+};
+
+export function PositionSummary({ token }: PositionSummaryProps) {
+  const { position, unrealized, loading } = usePosition(token.address);
+
+  if (loading || !position) {
+    return null;
+  }
+
+  if (position.tradeCount === 0) {
+    return (
+      <div className="p-3 bg-muted/30 rounded-lg text-sm text-muted-foreground">
+        No fills recorded for {token.symbol || "this token"} yet.
+      </div>
+    );
+  }
+
+  const rows: Array<{ label: string; value: string; className?: string }> = [
+    { label: "Position", value: `${position.quantity.toLocaleString()} ${token.symbol || "Token"}` },
+    { label: "Avg entry (SOL)", value: formatSol(position.averageEntrySol) },
+    { label: "Avg entry (USD)", value: formatUsd(position.averageEntryUsd) },
+    {
+      label: "Unrealized PnL",
+      value: `${formatSol(unrealized?.unrealizedPnlSol ?? null)} / ${formatUsd(unrealized?.unrealizedPnlUsd ?? null)}`,
+      className: pnlClassName(unrealized?.unrealizedPnlUsd ?? null),
+    },
+    {
+      label: "Realized PnL",
+      value: `${formatSol(position.realizedPnlSol)} / ${formatUsd(position.realizedPnlUsd)}`,
+      className: pnlClassName(position.realizedPnlUsd),
+    },
+  ];
+
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg space-y-1 text-sm">
+      {rows.map((row) => (
+        <div key={row.label} className="flex justify-between gap-2">
+          <span className="text-muted-foreground">{row.label}:</span>
+          <span className={cn("font-semibold text-right", row.className)}>{row.value}</span>
+        </div>
+      ))}
+      <div className="text-xs text-muted-foreground">
+        From {position.tradeCount} recorded {position.tradeCount === 1 ? "fill" : "fills"}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { usePriorityFee } from "@/hooks/use-priority-fee";
+import { PRIORITY_FEE_PRESET_LABELS, PriorityFeePreset } from "@/lib/priority-fees";
+import { cn } from "@/lib/utils";
+
+export function PriorityFeeSettings() {
+  const { priorityFee, setPriorityFee } = usePriorityFee();
+  const [customPrice, setCustomPrice] = useState("");
+  const [unitLimit, setUnitLimit] = useState("");
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm text-muted-foreground">Priority fee</label>
+      <div className="flex gap-2">
+        {(Object.keys(PRIORITY_FEE_PRESET_LABELS) as PriorityFeePreset[]).map((preset) => (
+          <button
+            key={preset}
+            onClick={() => setPriorityFee({ ...priorityFee, preset })}
+            className={cn(
+              "flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-all",
+              priorityFee.preset === preset
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+            )}
+          >
+            {PRIORITY_FEE_PRESET_LABELS[preset]}
+          </button>
+        ))}
+      </div>
+      {priorityFee.preset === "custom" && (
+        <Input
+          type="number"
+          placeholder={`${priorityFee.customMicroLamports.toLocaleString()} micro-lamports / CU`}
+          value={customPrice}
+          onChange={(e) => {
+            setCustomPrice(e.target.value);
+            const price = parseFloat(e.target.value);
+            if (price >= 0) {
+              setPriorityFee({ ...priorityFee, customMicroLamports: Math.round(price) });
+            }
+          }}
+          min="0"
+          step="1000"
+        />
+      )}
+      {priorityFee.preset !== "jupiter" && (
+        <Input
+          type="number"
+          placeholder={priorityFee.computeUnitLimit ? `${priorityFee.computeUnitLimit.toLocaleString()} CU limit` : "CU limit (Jupiter's by default)"}
+          value={unitLimit}
+          onChange={(e) => {
+            setUnitLimit(e.target.value);
+            const limit = parseInt(e.target.value, 10);
+            // Clearing the field hands the limit back to Jupiter
+            if (e.target.value === "") {
+              setPriorityFee({ ...priorityFee, computeUnitLimit: null });
+            } else if (limit > 0 && limit <= 1_400_000) {
+              setPriorityFee({ ...priorityFee, computeUnitLimit: limit });
+            }
+          }}
+          min="1"
+          max="1400000"
+          step="10000"
+        />
+      )}
+      <div className="text-xs text-muted-foreground">
+        Jupiter keeps the fee it quoted and sends the order through Ultra. Normal, Fast and Turbo bid the 50th, 75th
+        and 95th percentile of recent fees on the accounts each swap writes to, never below Jupiter's; orders with
+        our fee are sent through your RPC. Gasless and RFQ orders always keep the fee Jupiter quoted.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { TokenAccountBalance } from "@/lib/solana";
+import { DEFAULT_QUOTE_ASSETS, QuoteAsset } from "@/lib/quote-assets";
+import { shortenAddress } from "@/lib/utils";
+
+interface QuoteAssetSelectorProps {
+  value: QuoteAsset;
+  heldTokens: TokenAccountBalance[];
+  excludeMint: string;
+  onChange: (asset: QuoteAsset) => void;
+}
+
+export function QuoteAssetSelector({ value, heldTokens, excludeMint, onChange }: QuoteAssetSelectorProps) {
+  const heldAssets: QuoteAsset[] = heldTokens
+    .filter((account) => !DEFAULT_QUOTE_ASSETS.some((asset) => asset.mint === account.mint))
+    .map((account) => ({
+      mint: account.mint,
+      symbol: shortenAddress(account.mint),
+      decimals: account.decimals,
+    }));
+
+  const options = [...DEFAULT_QUOTE_ASSETS, ...heldAssets].filter((asset) => asset.mint !== excludeMint);
+
+  // Keep the current selection listed even if the wallet no longer holds it
+  if (!options.some((asset) => asset.mint === value.mint)) {
+    options.push(value);
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm text-muted-foreground">Quote Asset</label>
+      <select
+        value={value.mint}
+        onChange={(e) => {
+          const asset = options.find((option) => option.mint === e.target.value);
+          if (asset) {
+            onChange(asset);
+          }
+        }}
+        className="dark:bg-input/30 border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      >
+        {options.map((asset) => (
+          <option key={asset.mint} value={asset.mint}>
+            {asset.symbol}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import Decimal from "decimal.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { GetOrderResponse } from "@/lib/jupiter";
+import { TransferFeeInfo } from "@/lib/solana";
+import { PRIORITY_FEE_PRESET_LABELS, PriorityFeeQuote } from "@/lib/priority-fees";
+import { QuoteAsset } from "@/lib/quote-assets";
+import { SimulationResult } from "@/lib/simulation";
+import { cn, formatMintAmount } from "@/lib/utils";
+
+interface QuotePreviewProps {
+  order: GetOrderResponse;
+  // Null for paper quotes, which have no transaction to simulate
+  simulation: SimulationResult | null;
+  transferFee: TransferFeeInfo | null;
+  // Null for paper quotes, which pay no network fee
+  priorityFee: PriorityFeeQuote | null;
+  token: EnhancedToken;
+  quoteAsset: QuoteAsset;
+  direction: "buy" | "sell";
+  availableInput: Decimal;
+  submitting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const HIGH_PRICE_IMPACT_PCT = 5;
+
+export function QuotePreview({ order, simulation, transferFee, priorityFee, token, quoteAsset, direction, availableInput, submitting, onConfirm, onCancel }: QuotePreviewProps) {
+  // Jupiter reports price impact as a fraction, e.g. "0.012" for 1.2%
+  const priceImpactPct = new Decimal(order.priceImpactPct || 0).mul(100);
+  const isExactOut = order.swapMode === "ExactOut";
+  // For exact-out orders the input can grow up to the slippage threshold
+  const maxInput = new Decimal(isExactOut ? order.otherAmountThreshold : order.inAmount);
+  const insufficientBalance = maxInput.gt(availableInput);
+
+  const rows: Array<{ label: string; value: string; highlight?: boolean }> = [
+    { label: "You pay", value: formatMintAmount(order.inAmount, order.inputMint, token, [quoteAsset]) },
+    { label: "You receive", value: formatMintAmount(order.outAmount, order.outputMint, token, [quoteAsset]) },
+    isExactOut
+      ? { label: "Maximum paid", value: formatMintAmount(order.otherAmountThreshold, order.inputMint, token, [quoteAsset]) }
+      : { label: "Minimum received", value: formatMintAmount(order.otherAmountThreshold, order.outputMint, token, [quoteAsset]) },
+    {
+      label: "Price impact",
+      value: `${priceImpactPct.toDecimalPlaces(2).toString()}%`,
+      highlight: priceImpactPct.gte(HIGH_PRICE_IMPACT_PCT),
+    },
+    { label: "Slippage", value: `${(order.slippageBps / 100).toFixed(2)}%` },
+  ];
+
+  // Present when Ultra picked the slippage itself instead of using a fixed value
+  const slippageReport = order.dynamicSlippageReport;
+  if (slippageReport) {
+    rows.push({ label: "Slippage category", value: slippageReport.categoryName });
+    rows.push({ label: "Heuristic max", value: `${(slippageReport.heuristicMaxSlippageBps / 100).toFixed(2)}%` });
+    if (slippageReport.simulatedIncurredSlippageBps !== null) {
+      rows.push({
+        label: "Simulated slippage",
+        value: `${(slippageReport.simulatedIncurredSlippageBps / 100).toFixed(2)}%`,
+      });
+    }
+  }
+
+  rows.push({ label: "Fee", value: `${order.feeBps} bps` });
+
+  if (order.platformFee) {
+    rows.push({
+      label: "Platform fee",
+      value: `${formatMintAmount(order.platformFee.amount, order.feeMint, token, [quoteAsset])} (${order.platformFee.feeBps} bps)`,
+    });
+  }
+
+  if (transferFee) {
+    rows.push({
+      label: "Transfer fee",
+      value: `${(transferFee.basisPoints / 100).toFixed(2)}% (max ${formatMintAmount(transferFee.maximumFee, token.address, token)})`,
+      highlight: transferFee.basisPoints > 0,
+    });
+  }
+
+  if (priorityFee) {
+    const budget = `${priorityFee.microLamports.toLocaleString()} µL/CU × ${priorityFee.computeUnitLimit.toLocaleString()} CU`;
+    rows.push({
+      label: "Priority fee",
+      value: priorityFee.applied ? `${PRIORITY_FEE_PRESET_LABELS[priorityFee.preset]} · ${budget}` : `Jupiter's · ${budget}`,
+    });
+    rows.push({
+      label: "Network fee",
+      value: formatMintAmount(priorityFee.totalFeeLamports.toString(), NATIVE_MINT.toBase58(), token),
+    });
+  } else {
+    rows.push({
+      label: "Priority fee",
+      value: formatMintAmount(order.prioritizationFeeLamports.toString(), NATIVE_MINT.toBase58(), token),
+    });
+  }
+
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg space-y-3 text-sm">
+      <div className="space-y-1">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between gap-2">
+            <span className="text-muted-foreground">{row.label}:</span>
+            <span className={cn("font-semibold text-right", row.highlight && "text-red-500")}>{row.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {order.routePlan.length > 0 && (
+        <div className="space-y-1 pt-2 border-t border-border/50">
+          <span className="text-muted-foreground">Route:</span>
+          {order.routePlan.map((step, index) => (
+            <div key={`${step.swapInfo.ammKey}-${index}`} className="text-xs text-muted-foreground">
+              {index + 1}. {step.swapInfo.label} ({step.percent}%):{" "}
+              {formatMintAmount(step.swapInfo.inAmount, step.swapInfo.inputMint, token, [quoteAsset])} → {formatMintAmount(step.swapInfo.outAmount, step.swapInfo.outputMint, token, [quoteAsset])}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1 pt-2 border-t border-border/50">
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">Simulation:</span>
+          {simulation ? (
+            <span className={cn("font-semibold text-right", simulation.success ? "text-green-500" : "text-red-500")}>
+              {simulation.success ? "Passed" : "Failed"}
+              {simulation.unitsConsumed !== null && ` · ${simulation.unitsConsumed.toLocaleString()} CU`}
+            </span>
+          ) : (
+            <span className="text-right text-muted-foreground">Skipped (paper trade)</span>
+          )}
+        </div>
+        {simulation?.reason && <p className="text-xs text-red-500">{simulation.reason}</p>}
+        {simulation && simulation.logs.length > 0 && (
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer">Program logs ({simulation.logs.length})</summary>
+            <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-all font-mono">
+              {simulation.logs.join("\n")}
+            </pre>
+          </details>
+        )}
+      </div>
+
+      {priorityFee?.reason && <p className="text-xs text-muted-foreground">{priorityFee.reason}</p>}
+
+      {insufficientBalance && (
+        <p className="text-xs text-red-500">
+          Insufficient balance: this trade may need up to {formatMintAmount(maxInput, order.inputMint, token, [quoteAsset])}.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          disabled={submitting}
+          className="flex-1 py-2 px-4 rounded-lg font-medium transition-all bg-muted/30 text-muted-foreground hover:bg-muted/50 disabled:cursor-not-allowed"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={submitting || insufficientBalance || simulation?.success === false}
+          className={cn(
+            "flex-1 py-2 px-4 rounded-lg font-semibold transition-all text-white",
+            direction === "buy"
+              ? "bg-green-500 hover:bg-green-600 disabled:bg-green-500/30"
+              : "bg-red-500 hover:bg-red-600 disabled:bg-red-500/30",
+            "disabled:cursor-not-allowed"
+          )}
+        >
+          Confirm {direction === "buy" ? "Buy" : "Sell"}
+        </button>
+      </div>
+    </div>
+  );
+}
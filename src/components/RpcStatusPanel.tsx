@@ -0,0 +1,65 @@
+import { useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useRpcHealth } from "@/hooks/use-rpc-health";
+import { EndpointHealth } from "@/lib/rpc-pool";
+import { cn } from "@/lib/utils";
+
+// Endpoint URLs usually carry an API key, so only the host is shown
+const displayHost = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const statusClassName = (endpoint: EndpointHealth) => {
+  if (endpoint.checkedAt === null && endpoint.consecutiveFailures === 0) return "bg-muted-foreground";
+  if (!endpoint.healthy || endpoint.cooldownUntil > Date.now()) return "bg-red-500";
+  return endpoint.slotLag ? "bg-yellow-500" : "bg-green-500";
+};
+
+export function RpcStatusPanel() {
+  const { endpoints, activeUrl, probing, probe } = useRpcHealth();
+
+  useEffect(() => {
+    probe();
+  }, [probe]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>RPC Endpoints</CardTitle>
+          <button
+            onClick={probe}
+            disabled={probing}
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+          >
+            {probing ? "Probing..." : "Probe Now"}
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {endpoints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No RPC endpoint configured for this cluster.</p>
+        ) : (
+          endpoints.map((endpoint) => (
+            <div key={endpoint.url} className="flex items-center justify-between gap-4 p-3 bg-muted/30 rounded-lg text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className={cn("w-2 h-2 rounded-full shrink-0", statusClassName(endpoint))} />
+                <span className="font-mono truncate">{displayHost(endpoint.url)}</span>
+                {endpoint.url === activeUrl && <span className="text-xs text-green-500">active</span>}
+              </div>
+              <div className="text-right text-xs text-muted-foreground shrink-0">
+                {endpoint.latencyMs !== null ? `${endpoint.latencyMs} ms` : "—"}
+                {endpoint.slotLag ? ` · ${endpoint.slotLag} slots behind` : ""}
+                {endpoint.lastError && <span className="block text-red-500">{endpoint.lastError}</span>}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { SlippageSetting } from "@/hooks/use-slippage";
+
+interface SlippageSettingsProps {
+  slippage: SlippageSetting;
+  onChange: (setting: SlippageSetting) => void;
+}
+
+const slippageBpsPresets = [50, 100, 300, 1000];
+
+export function SlippageSettings({ slippage, onChange }: SlippageSettingsProps) {
+  const [customPct, setCustomPct] = useState("");
+
+  const isPreset = slippage.mode === "fixed" && slippageBpsPresets.includes(slippage.bps);
+
+  const selectPreset = (setting: SlippageSetting) => {
+    setCustomPct("");
+    onChange(setting);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm text-muted-foreground">Slippage</label>
+      <div className="flex gap-2">
+        <button
+          onClick={() => selectPreset({ mode: "auto" })}
+          className={cn(
+            "flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-all",
+            slippage.mode === "auto"
+              ? "bg-primary text-primary-foreground"
+              : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+          )}
+        >
+          Auto
+        </button>
+        {slippageBpsPresets.map((preset) => (
+          <button
+            key={preset}
+            onClick={() => selectPreset({ mode: "fixed", bps: preset })}
+            className={cn(
+              "flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-all",
+              slippage.mode === "fixed" && slippage.bps === preset
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+            )}
+          >
+            {preset / 100}%
+          </button>
+        ))}
+      </div>
+      <Input
+        type="number"
+        placeholder={slippage.mode === "fixed" && !isPreset ? `${slippage.bps / 100}` : "Custom %"}
+        value={customPct}
+        onChange={(e) => {
+          setCustomPct(e.target.value);
+          const pct = parseFloat(e.target.value);
+          if (pct > 0 && pct <= 50) {
+            onChange({ mode: "fixed", bps: Math.round(pct * 100) });
+          }
+        }}
+        min="0.01"
+        max="50"
+        step="0.1"
+      />
+    </div>
+  );
+}
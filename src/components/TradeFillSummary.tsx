@@ -0,0 +1,50 @@
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { TradeFill } from "@/hooks/use-trade";
+import { formatMintAmount, shortenAddress } from "@/lib/utils";
+import { QuoteAsset } from "@/lib/quote-assets";
+
+interface TradeFillSummaryProps {
+  fill: TradeFill;
+  token: EnhancedToken;
+  quoteAsset: QuoteAsset;
+}
+
+export function TradeFillSummary({ fill, token, quoteAsset }: TradeFillSummaryProps) {
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg space-y-2 text-sm">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Last Fill</span>
+        {fill.signature ? (
+          <a
+            href={`https://solscan.io/tx/${fill.signature}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-xs hover:underline"
+          >
+            {shortenAddress(fill.signature)}
+          </a>
+        ) : (
+          <span className="text-xs text-yellow-500">Paper fill</span>
+        )}
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Paid:</span>
+        <span className="font-semibold">{formatMintAmount(fill.inputAmount, fill.inputMint, token, [quoteAsset])}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Received:</span>
+        <span className="font-semibold">{formatMintAmount(fill.outputAmount, fill.outputMint, token, [quoteAsset])}</span>
+      </div>
+      {fill.swapEvents.length > 0 && (
+        <div className="space-y-1 pt-1 border-t border-border/50">
+          {fill.swapEvents.map((event, index) => (
+            <div key={index} className="text-xs text-muted-foreground">
+              {formatMintAmount(event.inputAmount, event.inputMint, token, [quoteAsset])} → {formatMintAmount(event.outputAmount, event.outputMint, token, [quoteAsset])}
+            </div>
+          ))}
+        </div>
+      )}
+      {fill.slot !== null && <div className="text-xs text-muted-foreground">Slot {fill.slot}</div>}
+    </div>
+  );
+}
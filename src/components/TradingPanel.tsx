@@ -1,12 +1,28 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { cn } from "@/lib/utils";
+import { cn, formatMintAmount } from "@/lib/utils";
 import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
 import { useBalance } from "@/hooks/use-balance";
-import { useTrade } from "@/hooks/use-trade";
-import { confirmTransaction, createConnection, createKeypair, sendTransaction, signTransaction } from "@/lib/solana";
+import { SwapMode, TradeFill, TradeQuote, useTrade } from "@/hooks/use-trade";
+import { useSlippage } from "@/hooks/use-slippage";
+import { signTransaction } from "@/lib/solana";
+import { useWallet } from "@/hooks/use-wallet";
+import { TradeFillSummary } from "@/components/TradeFillSummary";
+import { QuotePreview } from "@/components/QuotePreview";
+import { TwapControls } from "@/components/TwapControls";
+import { SlippageSettings } from "@/components/SlippageSettings";
+import { PriorityFeeSettings } from "@/components/PriorityFeeSettings";
+import { QuoteAssetSelector } from "@/components/QuoteAssetSelector";
+import { PositionSummary } from "@/components/PositionSummary";
+import { PaperTradingToggle } from "@/components/PaperTradingToggle";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { usePriorityFee } from "@/hooks/use-priority-fee";
+import { useCluster } from "@/hooks/use-cluster";
+import { useConfig } from "@/hooks/use-config";
+import { CLUSTER_LABELS, getClusterRpcUrl, isTradingSupported } from "@/lib/cluster";
+import { isNativeQuoteAsset, QuoteAsset, SOL_QUOTE_ASSET } from "@/lib/quote-assets";
 
 interface TradingPanelProps {
   token: EnhancedToken
@@ -17,57 +33,115 @@ export function TradingPanel({ token }: TradingPanelProps) {
   const [tradeMode, setTradeMode] = useState<"buy" | "sell">("buy");
   const [buyAmount, setBuyAmount] = useState("");
   const [sellPercentage, setSellPercentage] = useState("");
-  
-  const { nativeBalance: solanaBalance, tokenBalance, tokenAtomicBalance, loading, refreshBalance } = useBalance(token.address, Number(token.decimals), 9, Number(token.networkId));
-  const { createTransaction } = useTrade(token.address, tokenAtomicBalance);
+  const [swapMode, setSwapMode] = useState<SwapMode>("ExactIn");
+  const [exactOutAmount, setExactOutAmount] = useState("");
+  const [orderType, setOrderType] = useState<"market" | "twap">("market");
+  const [quoteAsset, setQuoteAsset] = useState<QuoteAsset>(SOL_QUOTE_ASSET);
+  const [quote, setQuote] = useState<TradeQuote | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [lastFill, setLastFill] = useState<TradeFill | null>(null);
 
-  const keypair = createKeypair(import.meta.env.VITE_SOLANA_PRIVATE_KEY);
-  const connection = createConnection();
+  const {
+    nativeBalance: solanaBalance,
+    tokenBalance,
+    tokenAtomicBalance,
+    quoteBalance,
+    quoteAtomicBalance,
+    heldTokens,
+    loading,
+  } = useBalance(token.address, Number(token.decimals), 9, Number(token.networkId), quoteAsset.mint, quoteAsset.decimals);
+  const { createTransaction, executeTransaction, executePaperTransaction } = useTrade(token.address, tokenAtomicBalance, Number(token.decimals), quoteAsset);
+  const { slippage, slippageBps, setSlippage } = useSlippage(token.address);
 
-  const handleTrade = useCallback(async () => {
-    const toastId = toast.loading("Submitting trade request...");
-    try {
-      const transaction =
-        await createTransaction({ 
-          direction: tradeMode, 
-          value: tradeMode === "buy" ? parseFloat(buyAmount) : parseFloat(sellPercentage), 
-          signer: keypair.publicKey 
-        });
+  const { signer } = useWallet();
+  const { paper } = usePaperTrading();
+  const { priorityFee } = usePriorityFee();
+  const { cluster } = useCluster();
+  const { jupiterReferralAccount } = useConfig();
 
-      toast.loading("Signing transaction...", { id: toastId });
-      const signedTransaction = signTransaction(keypair, transaction);
+  // Any change to the trade inputs invalidates the quote the user is looking at
+  useEffect(() => {
+    setQuote(null);
+  }, [tradeMode, buyAmount, sellPercentage, swapMode, exactOutAmount, quoteAsset, slippageBps, orderType, priorityFee]);
 
-      toast.loading("Sending transaction...", { id: toastId });
-      const signature = await sendTransaction(signedTransaction, connection);
+  const handleQuote = useCallback(async () => {
+    if (!signer && !paper) return;
+
+    const toastId = toast.loading("Fetching quote...");
+    try {
+      const nextQuote = await createTransaction({
+        direction: tradeMode,
+        value: swapMode === "ExactOut"
+          ? parseFloat(exactOutAmount)
+          : tradeMode === "buy" ? parseFloat(buyAmount) : parseFloat(sellPercentage),
+        // The connected wallet is the Jupiter taker, so the order is built for the key that signs it.
+        // Paper quotes are requested without a taker, so they never depend on the real wallet's funds.
+        signer: paper ? undefined : signer?.publicKey,
+        slippageBps,
+        swapMode,
+      });
+      setQuote(nextQuote);
+      toast.dismiss(toastId);
+    } catch (error) {
+      toast.error((error as Error).message, { id: toastId });
+    }
+  }, [tradeMode, buyAmount, sellPercentage, swapMode, exactOutAmount, slippageBps, createTransaction, signer, paper]);
 
-      toast.loading("Confirming transaction...", { id: toastId });
-      const confirmation = await confirmTransaction(signature, connection);
+  const handleConfirm = useCallback(async () => {
+    if (!quote || (!signer && !paper)) return;
 
-      if (confirmation.value.err) {
-        throw new Error("Trade failed");
+    setSubmitting(true);
+    const toastId = toast.loading(paper ? "Filling paper trade..." : "Signing transaction...");
+    try {
+      let fill: TradeFill;
+      if (paper) {
+        fill = await executePaperTransaction({ order: quote.order, tokenSymbol: tokenSymbol || "Token" });
+      } else {
+        if (!signer || !quote.transaction) {
+          throw new Error("Quote has no transaction to sign");
+        }
+        const signedTransaction = await signTransaction(signer, quote.transaction);
+
+        toast.loading("Executing trade...", { id: toastId });
+        fill = await executeTransaction({
+          order: quote.order,
+          signedTransaction,
+          tokenSymbol: tokenSymbol || "Token",
+          feeApplied: quote.priorityFee?.applied ?? false,
+          onStage: (stage) => toast.loading(`Transaction ${stage}...`, { id: toastId }),
+        });
       }
-      toast.success(`Trade successful! TX: ${signature.slice(0, 8)}...`, { id: toastId }); 
 
-      // Refresh balance after 1 second
-      setTimeout(refreshBalance, 1000);
+      setLastFill(fill);
+      setQuote(null);
+      toast.success(
+        `Paid ${formatMintAmount(fill.inputAmount, fill.inputMint, token, [quoteAsset])}, received ${formatMintAmount(fill.outputAmount, fill.outputMint, token, [quoteAsset])}${fill.signature ? `. TX: ${fill.signature.slice(0, 8)}...` : " (paper)"}`,
+        { id: toastId },
+      );
     } catch (error) {
       toast.error((error as Error).message, { id: toastId });
+    } finally {
+      setSubmitting(false);
     }
-  }, [tradeMode, buyAmount, sellPercentage, createTransaction, keypair, connection, refreshBalance]);
+  }, [quote, paper, executeTransaction, executePaperTransaction, signer, token, tokenSymbol, quoteAsset]);
 
   const solBuyAmountPresets = [0.0001, 0.001, 0.01, 0.1];
+  const tokenBuyAmountPresets = [1, 10, 100, 1000];
+  const buyAmountPresets = isNativeQuoteAsset(quoteAsset) ? solBuyAmountPresets : tokenBuyAmountPresets;
   const percentagePresets = [25, 50, 75, 100];
 
-  if (!import.meta.env.VITE_SOLANA_PRIVATE_KEY || !import.meta.env.VITE_HELIUS_RPC_URL || !import.meta.env.VITE_JUPITER_REFERRAL_ACCOUNT) {
+  // Paper trades are filled against the virtual ledger, so they need neither a wallet, an RPC URL nor a referral account
+  if (!paper && (!signer || !getClusterRpcUrl(cluster) || !jupiterReferralAccount)) {
     return (
       <Card>
         <CardHeader>
           <CardTitle>Trade {tokenSymbol || "Token"}</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <p className="text-sm text-muted-foreground">
-            Trading requires VITE_SOLANA_PRIVATE_KEY, VITE_HELIUS_RPC_URL and VITE_JUPITER_REFERRAL_ACCOUNT to be configured in environment variables.
+            Trading requires an unlocked or connected wallet, an RPC URL for the selected cluster, and a Jupiter referral account. Configure them on the Settings page.
           </p>
+          <PaperTradingToggle />
         </CardContent>
       </Card>
     );
@@ -78,23 +152,42 @@ export function TradingPanel({ token }: TradingPanelProps) {
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Trade {tokenSymbol || "Token"}</CardTitle>
-          <button
-            onClick={() => {
-              navigator.clipboard.writeText(keypair.publicKey.toBase58());
-              toast.success("Wallet address copied!");
-            }}
-            className="text-xs text-muted-foreground font-mono hover:text-foreground transition-colors cursor-pointer"
-          >
-            {keypair.publicKey.toBase58().slice(0, 4)}...{keypair.publicKey.toBase58().slice(-4)}
-          </button>
+          {paper || !signer ? (
+            <span className="text-xs text-yellow-500 font-mono">Paper</span>
+          ) : (
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(signer.publicKey.toBase58());
+                toast.success("Wallet address copied!");
+              }}
+              className="text-xs text-muted-foreground font-mono hover:text-foreground transition-colors cursor-pointer"
+            >
+              {signer.label}: {signer.publicKey.toBase58().slice(0, 4)}...{signer.publicKey.toBase58().slice(-4)}
+            </button>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
+        <PaperTradingToggle />
+
+        {!paper && !isTradingSupported(cluster) && (
+          <div className="p-3 rounded-lg text-sm bg-red-500/10 text-red-500">
+            Jupiter does not serve {CLUSTER_LABELS[cluster.id]}. Switch to Mainnet or use paper trading to trade.
+          </div>
+        )}
+
         <div className="flex justify-between p-3 bg-muted/30 rounded-lg">
           <span className="text-sm text-muted-foreground">SOL Balance:</span>
           <span className="font-semibold">{solanaBalance.toFixed(4)} SOL</span>
         </div>
 
+        {!isNativeQuoteAsset(quoteAsset) && (
+          <div className="flex justify-between p-3 bg-muted/30 rounded-lg">
+            <span className="text-sm text-muted-foreground">{quoteAsset.symbol} Balance:</span>
+            <span className="font-semibold">{quoteBalance.toLocaleString()} {quoteAsset.symbol}</span>
+          </div>
+        )}
+
         {tokenSymbol && (
           <div className="flex justify-between p-3 bg-muted/30 rounded-lg">
             <span className="text-sm text-muted-foreground">{tokenSymbol} Balance:</span>
@@ -102,6 +195,8 @@ export function TradingPanel({ token }: TradingPanelProps) {
           </div>
         )}
 
+        <PositionSummary token={token} />
+
         <div className="flex gap-2">
           <button
             onClick={() => setTradeMode("buy")}
@@ -127,11 +222,77 @@ export function TradingPanel({ token }: TradingPanelProps) {
           </button>
         </div>
 
-        {tradeMode === "buy" ? (
+        <QuoteAssetSelector
+          value={quoteAsset}
+          heldTokens={heldTokens}
+          excludeMint={token.address}
+          onChange={setQuoteAsset}
+        />
+
+        <div className="flex gap-2">
+          {(["market", "twap"] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => {
+                setOrderType(type);
+                // TWAP slices a fixed input, so it is always Exact In
+                if (type === "twap") setSwapMode("ExactIn");
+              }}
+              className={cn(
+                "flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-all",
+                orderType === type
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+              )}
+            >
+              {type === "market" ? "Market" : "TWAP"}
+            </button>
+          ))}
+        </div>
+
+        {orderType === "market" && (
+          <div className="flex gap-2">
+            {(["ExactIn", "ExactOut"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setSwapMode(mode)}
+                className={cn(
+                  "flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-all",
+                  swapMode === mode
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+                )}
+              >
+                {mode === "ExactIn" ? "Exact In" : "Exact Out"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {swapMode === "ExactOut" ? (
+          <div className="space-y-2">
+            <label className="text-sm text-muted-foreground">
+              {tradeMode === "buy" ? `${tokenSymbol || "Token"} to receive` : `${quoteAsset.symbol} to receive`}
+            </label>
+            <Input
+              type="number"
+              placeholder="0.00"
+              value={exactOutAmount}
+              onChange={(e) => setExactOutAmount(e.target.value)}
+              min="0"
+              step="any"
+            />
+            <div className="text-xs text-muted-foreground">
+              Available to spend: {tradeMode === "buy"
+                ? `${quoteBalance.toLocaleString()} ${quoteAsset.symbol}`
+                : `${tokenBalance.toLocaleString()} ${tokenSymbol || "Token"}`}
+            </div>
+          </div>
+        ) : tradeMode === "buy" ? (
           <div className="space-y-2">
-            <label className="text-sm text-muted-foreground">Amount in SOL</label>
+            <label className="text-sm text-muted-foreground">Amount in {quoteAsset.symbol}</label>
             <div className="flex gap-2">
-              {solBuyAmountPresets.map((preset) => (
+              {buyAmountPresets.map((preset) => (
                 <button
                   key={preset}
                   onClick={() => setBuyAmount(preset.toString())}
@@ -155,7 +316,7 @@ export function TradingPanel({ token }: TradingPanelProps) {
               step="0.01"
             />
             <div className="text-xs text-muted-foreground">
-              Available: {solanaBalance.toFixed(4)} SOL
+              Available: {quoteBalance.toLocaleString()} {quoteAsset.symbol}
             </div>
           </div>
         ) : (
@@ -194,22 +355,55 @@ export function TradingPanel({ token }: TradingPanelProps) {
           </div>
         )}
 
-        <button
-          onClick={handleTrade}
-          disabled={loading ||
-            (tradeMode === "buy" && (!buyAmount || parseFloat(buyAmount) <= 0)) ||
-            (tradeMode === "sell" && (!sellPercentage || parseFloat(sellPercentage) <= 0))
-          }
-          className={cn(
-            "w-full py-3 px-4 rounded-lg font-semibold transition-all",
-            tradeMode === "buy"
-              ? "bg-green-500 hover:bg-green-600 text-white disabled:bg-green-500/30 disabled:text-green-500/50"
-              : "bg-red-500 hover:bg-red-600 text-white disabled:bg-red-500/30 disabled:text-red-500/50",
-            "disabled:cursor-not-allowed"
-          )}
-        >
-          {tradeMode === "buy" ? "Buy" : "Sell"} {tokenSymbol || "Token"}
-        </button>
+        <SlippageSettings slippage={slippage} onChange={setSlippage} />
+
+        {!paper && <PriorityFeeSettings />}
+
+        {orderType === "twap" ? (
+          <TwapControls
+            token={token}
+            quoteAsset={quoteAsset}
+            direction={tradeMode}
+            value={tradeMode === "buy" ? parseFloat(buyAmount) : parseFloat(sellPercentage)}
+            tokenAtomicBalance={tokenAtomicBalance}
+            slippageBps={slippageBps}
+            disabled={loading}
+          />
+        ) : quote ? (
+          <QuotePreview
+            order={quote.order}
+            simulation={quote.simulation}
+            transferFee={quote.transferFee}
+            priorityFee={quote.priorityFee}
+            token={token}
+            direction={tradeMode}
+            quoteAsset={quoteAsset}
+            availableInput={tradeMode === "buy" ? quoteAtomicBalance : tokenAtomicBalance}
+            submitting={submitting}
+            onConfirm={handleConfirm}
+            onCancel={() => setQuote(null)}
+          />
+        ) : (
+          <button
+            onClick={handleQuote}
+            disabled={loading ||
+              (swapMode === "ExactOut" && (!exactOutAmount || parseFloat(exactOutAmount) <= 0)) ||
+              (swapMode === "ExactIn" && tradeMode === "buy" && (!buyAmount || parseFloat(buyAmount) <= 0)) ||
+              (swapMode === "ExactIn" && tradeMode === "sell" && (!sellPercentage || parseFloat(sellPercentage) <= 0))
+            }
+            className={cn(
+              "w-full py-3 px-4 rounded-lg font-semibold transition-all",
+              tradeMode === "buy"
+                ? "bg-green-500 hover:bg-green-600 text-white disabled:bg-green-500/30 disabled:text-green-500/50"
+                : "bg-red-500 hover:bg-red-600 text-white disabled:bg-red-500/30 disabled:text-red-500/50",
+              "disabled:cursor-not-allowed"
+            )}
+          >
+            Review {tradeMode === "buy" ? "Buy" : "Sell"} {tokenSymbol || "Token"}
+          </button>
+        )}
+
+        {lastFill && <TradeFillSummary fill={lastFill} token={token} quoteAsset={quoteAsset} />}
       </CardContent>
     </Card>
   );
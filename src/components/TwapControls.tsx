@@ -0,0 +1,171 @@
+import { useState } from "react";
+import Decimal from "decimal.js";
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { useWallet } from "@/hooks/use-wallet";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useTwap } from "@/hooks/use-twap";
+import { QuoteAsset } from "@/lib/quote-assets";
+import { DEFAULT_TWAP_SETTINGS, validateTwapSettings } from "@/lib/twap";
+import { cn, formatMintAmount } from "@/lib/utils";
+
+interface TwapControlsProps {
+  token: EnhancedToken;
+  quoteAsset: QuoteAsset;
+  direction: "buy" | "sell";
+  // Total size from the panel's inputs: quote asset to spend for buys, percentage of the balance for sells
+  value: number;
+  tokenAtomicBalance: Decimal;
+  slippageBps?: number;
+  disabled: boolean;
+}
+
+const progressStatusClassName = {
+  running: "text-blue-500",
+  completed: "text-green-500",
+  aborted: "text-red-500",
+  cancelled: "text-muted-foreground",
+};
+
+export function TwapControls({ token, quoteAsset, direction, value, tokenAtomicBalance, slippageBps, disabled }: TwapControlsProps) {
+  const tokenSymbol = token.symbol || "Token";
+  const { signer } = useWallet();
+  const { paper } = usePaperTrading();
+  const { progress, running, averagePrice, start, cancel } = useTwap(
+    token.address,
+    tokenAtomicBalance,
+    Number(token.decimals),
+    quoteAsset,
+  );
+  const [slices, setSlices] = useState(String(DEFAULT_TWAP_SETTINGS.slices));
+  const [windowMinutes, setWindowMinutes] = useState(String(DEFAULT_TWAP_SETTINGS.windowMs / 60_000));
+  const [jitterPct, setJitterPct] = useState(String(DEFAULT_TWAP_SETTINGS.jitterPct));
+  const [maxPriceImpactPct, setMaxPriceImpactPct] = useState(String(DEFAULT_TWAP_SETTINGS.maxPriceImpactPct));
+
+  const handleStart = async () => {
+    const settings = {
+      slices: parseInt(slices, 10),
+      windowMs: parseFloat(windowMinutes) * 60_000,
+      jitterPct: parseFloat(jitterPct),
+      maxPriceImpactPct: parseFloat(maxPriceImpactPct),
+    };
+    const error = validateTwapSettings(settings);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    try {
+      await start({ direction, value, settings, signer, paper, tokenSymbol, slippageBps });
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const settingFields = [
+    { label: "Slices", value: slices, onChange: setSlices, step: "1" },
+    { label: "Window (min)", value: windowMinutes, onChange: setWindowMinutes, step: "1" },
+    { label: "Jitter %", value: jitterPct, onChange: setJitterPct, step: "1" },
+    { label: "Max impact %", value: maxPriceImpactPct, onChange: setMaxPriceImpactPct, step: "0.1" },
+  ];
+
+  const filled = progress?.slices.length ?? 0;
+  const filledPct = progress ? (filled / progress.totalSlices) * 100 : 0;
+  const totals = progress?.slices.reduce(
+    (sum, slice) => ({ input: sum.input.plus(slice.inputAmount), output: sum.output.plus(slice.outputAmount) }),
+    { input: new Decimal(0), output: new Decimal(0) },
+  );
+  const [inputMint, outputMint] = progress?.direction === "sell"
+    ? [token.address, quoteAsset.mint]
+    : [quoteAsset.mint, token.address];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {settingFields.map((field) => (
+          <label key={field.label} className="space-y-1 text-xs text-muted-foreground">
+            {field.label}
+            <Input
+              type="number"
+              min="0"
+              step={field.step}
+              value={field.value}
+              onChange={(e) => field.onChange(e.target.value)}
+              disabled={running}
+            />
+          </label>
+        ))}
+      </div>
+
+      {running ? (
+        <button
+          onClick={cancel}
+          className="w-full py-3 px-4 rounded-lg font-semibold transition-all bg-muted/30 text-muted-foreground hover:bg-muted/50"
+        >
+          Cancel TWAP
+        </button>
+      ) : (
+        <button
+          onClick={handleStart}
+          disabled={disabled || !Number.isFinite(value) || value <= 0}
+          className={cn(
+            "w-full py-3 px-4 rounded-lg font-semibold transition-all",
+            direction === "buy"
+              ? "bg-green-500 hover:bg-green-600 text-white disabled:bg-green-500/30 disabled:text-green-500/50"
+              : "bg-red-500 hover:bg-red-600 text-white disabled:bg-red-500/30 disabled:text-red-500/50",
+            "disabled:cursor-not-allowed"
+          )}
+        >
+          Start TWAP {direction === "buy" ? "Buy" : "Sell"} {tokenSymbol}
+        </button>
+      )}
+
+      {progress && (
+        <div className="p-3 bg-muted/30 rounded-lg space-y-2 text-sm">
+          <div className="flex justify-between gap-2">
+            <span className={cn("capitalize font-medium", progressStatusClassName[progress.status])}>{progress.status}</span>
+            <span className="text-muted-foreground">
+              {filled}/{progress.totalSlices} slices
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted overflow-hidden">
+            <div
+              className={cn("h-full transition-all", progress.status === "aborted" ? "bg-red-500" : "bg-primary")}
+              style={{ width: `${filledPct}%` }}
+            />
+          </div>
+          {progress.nextSliceAt !== null && (
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Next slice:</span>
+              <span>{new Date(progress.nextSliceAt).toLocaleTimeString()}</span>
+            </div>
+          )}
+          {totals && filled > 0 && (
+            <>
+              <div className="flex justify-between gap-2">
+                <span className="text-muted-foreground">Paid:</span>
+                <span>{formatMintAmount(totals.input, inputMint, token, [quoteAsset])}</span>
+              </div>
+              <div className="flex justify-between gap-2">
+                <span className="text-muted-foreground">Received:</span>
+                <span>{formatMintAmount(totals.output, outputMint, token, [quoteAsset])}</span>
+              </div>
+            </>
+          )}
+          <div className="flex justify-between gap-2">
+            <span className="text-muted-foreground">Average price:</span>
+            <span className="font-semibold">
+              {averagePrice !== null ? `${averagePrice.toPrecision(6)} ${quoteAsset.symbol}` : "—"}
+            </span>
+          </div>
+          {progress.error && <div className="text-xs text-red-500">{progress.error}</div>}
+        </div>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        Slices are sent without a confirmation screen and only while this panel stays open.
+      </div>
+    </div>
+  );
+}
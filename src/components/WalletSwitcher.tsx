@@ -0,0 +1,103 @@
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { Lock, Unlock, Wallet } from "lucide-react";
+import { useWallet } from "@/hooks/use-wallet";
+import { shortenAddress } from "@/lib/utils";
+
+export function WalletSwitcher() {
+  const {
+    wallets,
+    activeWallet,
+    locked,
+    lock,
+    setActiveWallet,
+    browserWallets,
+    connectedWallet,
+    connectBrowserWallet,
+    disconnectBrowserWallet,
+  } = useWallet();
+
+  const handleConnect = async (name: string) => {
+    try {
+      await connectBrowserWallet(name);
+      toast.success(`Connected ${name}`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  if (connectedWallet) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <img src={connectedWallet.wallet.icon} alt="" width={16} height={16} className="rounded" />
+        <span>
+          {connectedWallet.wallet.name} ({shortenAddress(connectedWallet.account.address)})
+        </span>
+        <button
+          onClick={disconnectBrowserWallet}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Disconnect
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Wallet className="w-4 h-4 text-muted-foreground" />
+      {wallets.length === 0 ? (
+        <span className="text-muted-foreground">No wallet</span>
+      ) : (
+        <select
+          value={activeWallet?.id}
+          onChange={(e) => setActiveWallet(e.target.value)}
+          className="dark:bg-input/30 border-input h-8 rounded-md border bg-transparent px-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+        >
+          {wallets.map((wallet) => (
+            <option key={wallet.id} value={wallet.id}>
+              {wallet.label} ({shortenAddress(wallet.publicKey)})
+            </option>
+          ))}
+        </select>
+      )}
+      {locked ? (
+        <Link
+          to="/wallets"
+          className="inline-flex items-center gap-1 text-yellow-500 hover:underline"
+          title="Signing is disabled until the keystore is unlocked"
+        >
+          <Lock className="w-3 h-3" />
+          Unlock
+        </Link>
+      ) : (
+        <button
+          onClick={lock}
+          className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <Unlock className="w-3 h-3" />
+          Lock
+        </button>
+      )}
+      <Link to="/wallets" className="text-muted-foreground hover:text-foreground hover:underline">
+        Manage
+      </Link>
+      {browserWallets.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => handleConnect(e.target.value)}
+          className="dark:bg-input/30 border-input h-8 rounded-md border bg-transparent px-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+        >
+          <option value="" disabled>
+            Connect wallet...
+          </option>
+          {browserWallets.map((wallet) => (
+            <option key={wallet.name} value={wallet.name}>
+              {wallet.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
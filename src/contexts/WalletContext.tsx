@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useMemo, useRef, useState, ReactNode } from "react";
+import { Keypair } from "@solana/web3.js";
+import { createKeypairSigner } from "@/lib/signer";
+import {
+  connectWallet,
+  createBrowserWalletSigner,
+  disconnectWallet,
+  getSolanaWallets,
+  onWalletsChanged,
+  SolanaStandardWallet,
+} from "@/lib/wallet-standard";
+import {
+  importWallet as importStoredWallet,
+  loadActiveWalletId,
+  loadWallets,
+  removeWallet as removeStoredWallet,
+  renameWallet as renameStoredWallet,
+  saveActiveWalletId,
+  StoredWallet,
+  unlockWallets,
+} from "@/lib/wallets";
+import { WalletContext, WalletContextType } from "@/hooks/use-wallet";
+
+const AUTO_LOCK_MS = 15 * 60 * 1000;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+export function WalletProvider({ children }: { children: ReactNode }) {
+  const [wallets, setWallets] = useState<StoredWallet[]>([]);
+  const [activeWalletId, setActiveWalletId] = useState<string | null>(loadActiveWalletId);
+  const [keypairs, setKeypairs] = useState<Map<string, Keypair> | null>(null);
+  // Kept only in memory for the unlocked session so new imports can be encrypted
+  const passphraseRef = useRef<string | null>(null);
+  const [browserWallets, setBrowserWallets] = useState<SolanaStandardWallet[]>(getSolanaWallets);
+  const [connectedWallet, setConnectedWallet] = useState<WalletContextType["connectedWallet"]>(null);
+
+  const refreshWallets = useCallback(async () => {
+    try {
+      setWallets(await loadWallets());
+    } catch (error) {
+      console.error("[WalletContext] Failed to load wallets:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshWallets();
+  }, [refreshWallets]);
+
+  // Fall back to the first wallet when the stored choice was removed
+  const activeWallet = wallets.find((wallet) => wallet.id === activeWalletId) ?? wallets[0] ?? null;
+  const keypair = activeWallet ? keypairs?.get(activeWallet.id) ?? null : null;
+  const locked = keypairs === null;
+
+  const signer = useMemo(() => {
+    if (connectedWallet) {
+      return createBrowserWalletSigner(connectedWallet.wallet, connectedWallet.account);
+    }
+    return keypair && activeWallet ? createKeypairSigner(keypair, activeWallet.label) : null;
+  }, [connectedWallet, keypair, activeWallet]);
+  const walletAddress = connectedWallet?.account.address ?? activeWallet?.publicKey ?? null;
+
+  useEffect(() => {
+    return onWalletsChanged(() => setBrowserWallets(getSolanaWallets()));
+  }, []);
+
+  // Drop the session if the wallet goes away, e.g. the extension was disabled
+  useEffect(() => {
+    if (connectedWallet && !browserWallets.includes(connectedWallet.wallet)) {
+      setConnectedWallet(null);
+    }
+  }, [browserWallets, connectedWallet]);
+
+  const connectBrowserWallet = async (name: string) => {
+    const wallet = browserWallets.find((candidate) => candidate.name === name);
+    if (!wallet) {
+      throw new Error(`Wallet ${name} is not available`);
+    }
+    const account = await connectWallet(wallet);
+    setConnectedWallet({ wallet, account });
+  };
+
+  const disconnectBrowserWallet = async () => {
+    if (!connectedWallet) return;
+    setConnectedWallet(null);
+    try {
+      await disconnectWallet(connectedWallet.wallet);
+    } catch (error) {
+      console.warn("[WalletContext] Browser wallet failed to disconnect:", error);
+    }
+  };
+
+  const lock = useCallback(() => {
+    passphraseRef.current = null;
+    setKeypairs(null);
+  }, []);
+
+  const unlock = async (passphrase: string) => {
+    const unlocked = await unlockWallets(passphrase);
+    passphraseRef.current = passphrase;
+    setKeypairs(unlocked);
+    await refreshWallets();
+  };
+
+  // Any user interaction pushes the auto-lock back
+  useEffect(() => {
+    if (locked) return;
+
+    let timer = setTimeout(lock, AUTO_LOCK_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, AUTO_LOCK_MS);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [locked, lock]);
+
+  const importWallet = async (label: string, privateKey: string) => {
+    if (!passphraseRef.current) {
+      throw new Error("Unlock the keystore before importing a wallet");
+    }
+    const { wallet, keypair: imported } = await importStoredWallet(label, privateKey, passphraseRef.current);
+    setKeypairs((current) => new Map(current).set(wallet.id, imported));
+    await refreshWallets();
+    // Switching to a freshly imported wallet is almost always the intent
+    setActiveWallet(wallet.id);
+  };
+
+  const renameWallet = async (id: string, label: string) => {
+    await renameStoredWallet(id, label);
+    await refreshWallets();
+  };
+
+  const removeWallet = async (id: string) => {
+    await removeStoredWallet(id);
+    setKeypairs((current) => {
+      if (!current) return current;
+      const next = new Map(current);
+      next.delete(id);
+      return next;
+    });
+    await refreshWallets();
+  };
+
+  const setActiveWallet = (id: string) => {
+    saveActiveWalletId(id);
+    setActiveWalletId(id);
+  };
+
+  return (
+    <WalletContext.Provider
+      value={{
+        wallets,
+        activeWallet,
+        walletAddress,
+        signer,
+        locked,
+        browserWallets,
+        connectedWallet,
+        connectBrowserWallet,
+        disconnectBrowserWallet,
+        unlock,
+        lock,
+        importWallet,
+        renameWallet,
+        removeWallet,
+        setActiveWallet,
+      }}
+    >
+      {children}
+    </WalletContext.Provider>
+  );
+}
@@ -1,68 +1,116 @@
-import { useCallback, useEffect, useState } from "react";
-import { createKeypair, createConnection, getSolanaBalance, getTokenBalance } from "@/lib/solana";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import {
+  createConnection,
+  getSolanaBalance,
+  getTokenAccounts,
+  getTokenBalance,
+  getWatchedTokenAccounts,
+  getWebSocketUrl,
+  isWebSocketReachable,
+  TokenAccountBalance,
+} from "@/lib/solana";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
 import Decimal from "decimal.js";
+import { useWallet } from "@/hooks/use-wallet";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useCluster } from "@/hooks/use-cluster";
+import { CLUSTER_LABELS, getClusterRpcUrl } from "@/lib/cluster";
+import { getPaperBalance, getPaperBalances, PAPER_LEDGER_UPDATED_EVENT } from "@/lib/paper-trading";
 
-export const useBalance = (tokenAddress: string, tokenDecimals: number, nativeDecimals: number, networkId: number) => {
+// Notifications for one transaction often arrive for several accounts at once
+const ACCOUNT_CHANGE_DEBOUNCE_MS = 250;
+const BALANCE_POLL_INTERVAL_MS = 10_000;
+
+const isSolanaAddress = (address: string) => /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
+
+export const useBalance = (
+  tokenAddress: string,
+  tokenDecimals: number,
+  nativeDecimals: number,
+  networkId: number,
+  quoteMint: string = SOL_QUOTE_ASSET.mint,
+  quoteDecimals: number = nativeDecimals,
+) => {
   const [nativeBalance, setNativeBalance] = useState<number>(0);
   const [nativeAtomicBalance, setNativeAtomicBalance] = useState<Decimal>(new Decimal(0));
   const [tokenBalance, setTokenBalance] = useState<number>(0);
   const [tokenAtomicBalance, setTokenAtomicBalance] = useState<Decimal>(new Decimal(0));
+  const [quoteBalance, setQuoteBalance] = useState<number>(0);
+  const [quoteAtomicBalance, setQuoteAtomicBalance] = useState<Decimal>(new Decimal(0));
+  const [heldTokens, setHeldTokens] = useState<TokenAccountBalance[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const loadedQuery = useRef<string | null>(null);
+  // Balances only need the address, so they stay visible while the keystore is locked
+  const { walletAddress } = useWallet();
+  const { paper } = usePaperTrading();
+  const { cluster } = useCluster();
 
   const refreshBalance = useCallback(async () => {
     try {
-      // Only support Solana mainnet (networkId = 101)
+      // Only Solana tokens (networkId = 101) can be queried; which Solana cluster is read follows the cluster setting
       if (networkId !== 101) {
         console.warn(`[useBalance] Network ID ${networkId} is not supported. Only Solana (101) is supported for RPC queries.`);
         setLoading(false);
         return;
       }
 
-      const privateKey = import.meta.env.VITE_SOLANA_PRIVATE_KEY;
-      if (!privateKey) {
-        console.error("[useBalance] ❌ VITE_SOLANA_PRIVATE_KEY is not set");
+      // Paper mode reads the virtual ledger instead of the chain, so it works without a wallet
+      if (paper) {
+        const balances = await getPaperBalances();
+        const solAtomic = getPaperBalance(balances, SOL_QUOTE_ASSET.mint);
+        const tokenAtomic = getPaperBalance(balances, tokenAddress);
+        const quoteAtomic = getPaperBalance(balances, quoteMint);
+
+        setNativeAtomicBalance(solAtomic);
+        setNativeBalance(solAtomic.div(10 ** nativeDecimals).toNumber());
+        setTokenAtomicBalance(tokenAtomic);
+        setTokenBalance(tokenAtomic.div(10 ** tokenDecimals).toNumber());
+        setQuoteAtomicBalance(quoteAtomic);
+        setQuoteBalance(quoteAtomic.div(10 ** quoteDecimals).toNumber());
+        setHeldTokens(
+          balances
+            .filter((balance) => new Decimal(balance.amount).gt(0))
+            .map((balance) => ({
+              address: balance.mint,
+              programId: "",
+              mint: balance.mint,
+              amount: new Decimal(balance.amount),
+              decimals: balance.decimals,
+              lamports: 0,
+              frozen: false,
+            }))
+        );
         setLoading(false);
         return;
       }
 
-      const rpcUrl = import.meta.env.VITE_HELIUS_RPC_URL;
-      if (!rpcUrl) {
-        console.error("[useBalance] ❌ VITE_HELIUS_RPC_URL is not set");
+      if (!walletAddress) {
+        console.error("[useBalance] ❌ No active wallet");
         setLoading(false);
         return;
       }
 
-      let keypair;
-      let walletAddress: string;
-      try {
-        keypair = createKeypair(privateKey);
-        walletAddress = keypair.publicKey.toBase58();
-      } catch (keypairError) {
-        console.error("[useBalance] ❌ Failed to create keypair:", keypairError);
+      const rpcUrl = getClusterRpcUrl(cluster);
+      if (!rpcUrl) {
+        console.error(`[useBalance] ❌ No RPC URL configured for ${CLUSTER_LABELS[cluster.id]}`);
         setLoading(false);
         return;
       }
 
-      console.log("[useBalance] ===== Starting RPC balance query =====");
-      console.log("[useBalance] Wallet Address:", walletAddress);
-      console.log("[useBalance] Network ID:", networkId, "(Solana)");
-      console.log("[useBalance] Token Address:", tokenAddress);
-      console.log("[useBalance] RPC URL:", rpcUrl);
-      console.log("[useBalance] Solana Explorer:", `https://explorer.solana.com/address/${walletAddress}`);
-
-      setLoading(true);
+      // Notifications and the poll refresh in the background; only a new wallet, pair or cluster shows as loading
+      const queryKey = `${cluster.id}:${walletAddress}:${tokenAddress}:${quoteMint}`;
+      if (loadedQuery.current !== queryKey) setLoading(true);
 
       // Create connection
-      const connection = createConnection();
+      const connection = createConnection(cluster);
 
       // Fetch SOL balance
-      console.log("[useBalance] Fetching SOL balance from RPC...");
       const solBalanceAtomic = await getSolanaBalance(walletAddress, connection);
       const solBalanceHuman = solBalanceAtomic.div(10 ** nativeDecimals).toNumber();
       
       setNativeAtomicBalance(solBalanceAtomic);
       setNativeBalance(solBalanceHuman);
-      console.log("[useBalance] ✅ SOL balance:", solBalanceHuman, "SOL");
 
       // Fetch token balance (only if tokenAddress is valid Solana format)
       const isSuiFormat = tokenAddress.includes("::");
@@ -80,13 +128,11 @@ export const useBalance = (tokenAddress: string, tokenDecimals: number, nativeDe
         setTokenAtomicBalance(new Decimal(0));
         setTokenBalance(0);
       } else if (isBase58Format && tokenAddress.length >= 32) {
-        console.log("[useBalance] Fetching token balance from RPC...");
         const tokenBalanceAtomic = await getTokenBalance(walletAddress, tokenAddress, connection);
         const tokenBalanceHuman = tokenBalanceAtomic.div(10 ** tokenDecimals).toNumber();
         
         setTokenAtomicBalance(tokenBalanceAtomic);
         setTokenBalance(tokenBalanceHuman);
-        console.log("[useBalance] ✅ Token balance:", tokenBalanceHuman);
       } else {
         console.warn("[useBalance] ⚠️ Token address format is invalid for Solana");
         console.warn("[useBalance] Token address:", tokenAddress);
@@ -95,7 +141,21 @@ export const useBalance = (tokenAddress: string, tokenDecimals: number, nativeDe
         setTokenBalance(0);
       }
 
-      console.log("[useBalance] ===== RPC balance query completed =====");
+      // Fetch the quote leg when trading against something other than SOL
+      if (quoteMint === SOL_QUOTE_ASSET.mint) {
+        setQuoteAtomicBalance(solBalanceAtomic);
+        setQuoteBalance(solBalanceHuman);
+      } else {
+        const quoteBalanceAtomic = await getTokenBalance(walletAddress, quoteMint, connection);
+        setQuoteAtomicBalance(quoteBalanceAtomic);
+        setQuoteBalance(quoteBalanceAtomic.div(10 ** quoteDecimals).toNumber());
+      }
+
+      // Every mint the wallet holds can be picked as a quote asset
+      const tokenAccounts = await getTokenAccounts(walletAddress, connection);
+      setHeldTokens(tokenAccounts.filter((account) => account.amount.gt(0)));
+
+      loadedQuery.current = queryKey;
       setLoading(false);
     } catch (error) {
       console.error("[useBalance] ❌ Error fetching balances from RPC:", error);
@@ -105,11 +165,84 @@ export const useBalance = (tokenAddress: string, tokenDecimals: number, nativeDe
       }
       setLoading(false);
     }
-  }, [tokenAddress, networkId, nativeDecimals, tokenDecimals]);
+  }, [tokenAddress, networkId, nativeDecimals, tokenDecimals, quoteMint, quoteDecimals, walletAddress, paper, cluster]);
 
   useEffect(() => {
     refreshBalance();
   }, [refreshBalance]);
 
-  return { nativeBalance, nativeAtomicBalance, tokenBalance, tokenAtomicBalance, loading, refreshBalance };
+  useEffect(() => {
+    if (!paper) return;
+    window.addEventListener(PAPER_LEDGER_UPDATED_EVENT, refreshBalance);
+    return () => window.removeEventListener(PAPER_LEDGER_UPDATED_EVENT, refreshBalance);
+  }, [paper, refreshBalance]);
+
+  // Watch the wallet and its token accounts so trades made here or from any other tool show up immediately.
+  // Falls back to polling when the cluster's websocket endpoint cannot be reached.
+  useEffect(() => {
+    if (paper || !walletAddress || networkId !== 101) return;
+
+    let cancelled = false;
+    let connection: ReturnType<typeof createConnection>;
+    try {
+      connection = createConnection(cluster);
+    } catch (error) {
+      console.warn("[useBalance] Cannot watch balances:", error);
+      return;
+    }
+
+    const subscriptionIds: number[] = [];
+    let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+    const scheduleRefresh = () => {
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(refreshBalance, ACCOUNT_CHANGE_DEBOUNCE_MS);
+    };
+
+    const watch = async () => {
+      if (!(await isWebSocketReachable(getWebSocketUrl(connection.rpcEndpoint)))) {
+        if (cancelled) return;
+        console.warn("[useBalance] ⚠️ Websocket unavailable, polling balances instead");
+        pollTimer = setInterval(refreshBalance, BALANCE_POLL_INTERVAL_MS);
+        return;
+      }
+
+      const mints = [tokenAddress, quoteMint].filter((mint) => mint !== SOL_QUOTE_ASSET.mint && isSolanaAddress(mint));
+      const tokenAccounts = await getWatchedTokenAccounts(walletAddress, mints, connection);
+      if (cancelled) return;
+
+      [new PublicKey(walletAddress), ...tokenAccounts].forEach((address) => {
+        subscriptionIds.push(connection.onAccountChange(address, scheduleRefresh, { commitment: "confirmed" }));
+      });
+    };
+
+    watch().catch((error) => {
+      console.warn("[useBalance] Failed to subscribe, polling balances instead:", error);
+      if (!cancelled) {
+        pollTimer = setInterval(refreshBalance, BALANCE_POLL_INTERVAL_MS);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(debounceTimer);
+      clearInterval(pollTimer);
+      subscriptionIds.forEach((id) => {
+        connection.removeAccountChangeListener(id).catch(() => undefined);
+      });
+    };
+  }, [paper, walletAddress, networkId, tokenAddress, quoteMint, cluster, refreshBalance]);
+
+  return {
+    nativeBalance,
+    nativeAtomicBalance,
+    tokenBalance,
+    tokenAtomicBalance,
+    quoteBalance,
+    quoteAtomicBalance,
+    heldTokens,
+    loading,
+    refreshBalance,
+  };
 };
\ No newline at end of file
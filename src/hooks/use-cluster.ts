@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from "react";
+import { CLUSTER_CHANGED_EVENT, ClusterSetting, loadCluster, saveCluster } from "@/lib/cluster";
+import { CONFIG_CHANGED_EVENT } from "@/lib/config";
+
+// The cluster is global, so balances, sending and confirmation all switch together
+export const useCluster = () => {
+  const [cluster, setClusterState] = useState<ClusterSetting>(loadCluster);
+
+  useEffect(() => {
+    const sync = () => setClusterState(loadCluster());
+    // A new mainnet RPC in settings changes the endpoint without changing the cluster
+    window.addEventListener(CLUSTER_CHANGED_EVENT, sync);
+    window.addEventListener(CONFIG_CHANGED_EVENT, sync);
+    return () => {
+      window.removeEventListener(CLUSTER_CHANGED_EVENT, sync);
+      window.removeEventListener(CONFIG_CHANGED_EVENT, sync);
+    };
+  }, []);
+
+  const setCluster = useCallback((next: ClusterSetting) => {
+    saveCluster(next);
+  }, []);
+
+  return { cluster, setCluster };
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+import { AppConfig, CONFIG_CHANGED_EVENT, getConfig } from "@/lib/config";
+
+// Re-renders whenever the settings page saves, so panels pick up new values without a reload
+export const useConfig = () => {
+  const [config, setConfig] = useState<AppConfig>(getConfig);
+
+  useEffect(() => {
+    const sync = () => setConfig(getConfig());
+    window.addEventListener(CONFIG_CHANGED_EVENT, sync);
+    return () => window.removeEventListener(CONFIG_CHANGED_EVENT, sync);
+  }, []);
+
+  return config;
+};
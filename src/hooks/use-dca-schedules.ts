@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import { DCA_SCHEDULES_UPDATED_EVENT, DcaSchedule, getDcaSchedules } from "@/lib/dca";
+
+// All schedules, or one token's, kept in sync with the monitor's updates
+export const useDcaSchedules = (tokenAddress?: string) => {
+  const [schedules, setSchedules] = useState<DcaSchedule[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refreshSchedules = useCallback(async () => {
+    try {
+      setSchedules(await getDcaSchedules(tokenAddress));
+    } catch (error) {
+      console.error("[useDcaSchedules] Failed to load schedules:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenAddress]);
+
+  useEffect(() => {
+    refreshSchedules();
+    window.addEventListener(DCA_SCHEDULES_UPDATED_EVENT, refreshSchedules);
+    return () => window.removeEventListener(DCA_SCHEDULES_UPDATED_EVENT, refreshSchedules);
+  }, [refreshSchedules]);
+
+  return { schedules, loading };
+};
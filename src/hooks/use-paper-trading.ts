@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from "react";
+import { isPaperTradingEnabled, PAPER_MODE_CHANGED_EVENT, setPaperTradingEnabled } from "@/lib/paper-trading";
+
+// Paper mode is global, so every panel, balance and position follows the toggle in any one of them
+export const usePaperTrading = () => {
+  const [paper, setPaperState] = useState<boolean>(isPaperTradingEnabled);
+
+  useEffect(() => {
+    const sync = () => setPaperState(isPaperTradingEnabled());
+    window.addEventListener(PAPER_MODE_CHANGED_EVENT, sync);
+    return () => window.removeEventListener(PAPER_MODE_CHANGED_EVENT, sync);
+  }, []);
+
+  const setPaper = useCallback((enabled: boolean) => {
+    setPaperTradingEnabled(enabled);
+  }, []);
+
+  return { paper, setPaper };
+};
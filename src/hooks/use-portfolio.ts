@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import Decimal from "decimal.js";
+import { createConnection, getSolanaBalance, getTokenAccounts } from "@/lib/solana";
+import { getTokenMarketData } from "@/lib/prices";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+import { useWallet } from "@/hooks/use-wallet";
+import { useCluster } from "@/hooks/use-cluster";
+
+export interface PortfolioHolding {
+  mint: string;
+  isNative: boolean;
+  amount: number;
+  symbol: string | null;
+  name: string | null;
+  imageUrl: string | null;
+  priceUsd: number | null;
+  valueUsd: number | null;
+  change24: number | null;
+  // Fraction of the total USD value, null for holdings Codex has no price for
+  shareOfTotal: number | null;
+}
+
+export const usePortfolio = () => {
+  const [holdings, setHoldings] = useState<PortfolioHolding[]>([]);
+  const [totalValueUsd, setTotalValueUsd] = useState<number>(0);
+  const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const { walletAddress: owner } = useWallet();
+  const { cluster } = useCluster();
+
+  const refreshPortfolio = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!owner) {
+        throw new Error("No wallet configured. Import one on the Wallets page.");
+      }
+      setWalletAddress(owner);
+
+      const connection = createConnection(cluster);
+      const [lamports, tokenAccounts] = await Promise.all([
+        getSolanaBalance(owner, connection),
+        getTokenAccounts(owner, connection),
+      ]);
+
+      // A wallet can hold several accounts for the same mint
+      const amounts = new Map<string, Decimal>();
+      const decimals = new Map<string, number>();
+      tokenAccounts.forEach((account) => {
+        amounts.set(account.mint, (amounts.get(account.mint) ?? new Decimal(0)).add(account.amount));
+        decimals.set(account.mint, account.decimals);
+      });
+
+      // Wrapped SOL is folded into the native SOL row rather than listed a second time
+      const heldMints = [...amounts.entries()]
+        .filter(([mint, amount]) => mint !== SOL_QUOTE_ASSET.mint && amount.gt(0))
+        .map(([mint]) => mint);
+
+      const marketData = await getTokenMarketData([SOL_QUOTE_ASSET.mint, ...heldMints]);
+
+      const buildHolding = (mint: string, amount: number, isNative: boolean): PortfolioHolding => {
+        const data = marketData[mint];
+        const priceUsd = data?.priceUsd ?? null;
+        return {
+          mint,
+          isNative,
+          amount,
+          symbol: isNative ? SOL_QUOTE_ASSET.symbol : data?.symbol ?? null,
+          name: isNative ? "Solana" : data?.name ?? null,
+          imageUrl: data?.imageUrl ?? null,
+          priceUsd,
+          valueUsd: priceUsd !== null ? amount * priceUsd : null,
+          change24: data?.change24 ?? null,
+          shareOfTotal: null,
+        };
+      };
+
+      const nextHoldings = [
+        buildHolding(
+          SOL_QUOTE_ASSET.mint,
+          lamports.add(amounts.get(SOL_QUOTE_ASSET.mint) ?? 0).div(10 ** SOL_QUOTE_ASSET.decimals).toNumber(),
+          true,
+        ),
+        ...heldMints.map((mint) =>
+          buildHolding(mint, amounts.get(mint)!.div(10 ** (decimals.get(mint) ?? 0)).toNumber(), false)
+        ),
+      ];
+
+      const total = nextHoldings.reduce((sum, holding) => sum + (holding.valueUsd ?? 0), 0);
+      nextHoldings.forEach((holding) => {
+        holding.shareOfTotal = holding.valueUsd !== null && total > 0 ? holding.valueUsd / total : null;
+      });
+      nextHoldings.sort((a, b) => (b.valueUsd ?? -1) - (a.valueUsd ?? -1));
+
+      setHoldings(nextHoldings);
+      setTotalValueUsd(total);
+    } catch (err) {
+      console.error("[usePortfolio] Error loading portfolio:", err);
+      setError(err instanceof Error ? err.message : "Failed to load portfolio.");
+    } finally {
+      setLoading(false);
+    }
+  }, [owner, cluster]);
+
+  useEffect(() => {
+    refreshPortfolio();
+  }, [refreshPortfolio]);
+
+  return { holdings, totalValueUsd, walletAddress, loading, error, refreshPortfolio };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import { getTrades, TRADE_HISTORY_UPDATED_EVENT } from "@/lib/trade-history";
+import { buildPosition, getUnrealizedPnl, Position, PositionMarks } from "@/lib/positions";
+import { getTokenPricesUsd } from "@/lib/prices";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useWallet } from "@/hooks/use-wallet";
+
+const MARK_REFRESH_INTERVAL_MS = 30_000;
+
+export const usePosition = (tokenAddress: string) => {
+  const [position, setPosition] = useState<Position | null>(null);
+  const [marks, setMarks] = useState<PositionMarks>({ tokenPriceUsd: null, solPriceUsd: null });
+  const [loading, setLoading] = useState<boolean>(true);
+  const { paper } = usePaperTrading();
+  const { walletAddress, wallets } = useWallet();
+  const defaultWalletAddress = wallets[0]?.publicKey ?? null;
+
+  const refreshPosition = useCallback(async () => {
+    try {
+      const trades = await getTrades(paper, { walletAddress, defaultWalletAddress });
+      setPosition(buildPosition(trades, tokenAddress));
+    } catch (error) {
+      console.error("[usePosition] Failed to load fills:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenAddress, paper, walletAddress, defaultWalletAddress]);
+
+  const refreshMarks = useCallback(async () => {
+    try {
+      const prices = await getTokenPricesUsd([tokenAddress, SOL_QUOTE_ASSET.mint]);
+      setMarks({
+        tokenPriceUsd: prices[tokenAddress] ?? null,
+        solPriceUsd: prices[SOL_QUOTE_ASSET.mint] ?? null,
+      });
+    } catch (error) {
+      console.warn("[usePosition] Failed to fetch mark prices:", error);
+    }
+  }, [tokenAddress]);
+
+  useEffect(() => {
+    refreshPosition();
+    window.addEventListener(TRADE_HISTORY_UPDATED_EVENT, refreshPosition);
+    return () => window.removeEventListener(TRADE_HISTORY_UPDATED_EVENT, refreshPosition);
+  }, [refreshPosition]);
+
+  useEffect(() => {
+    refreshMarks();
+    const interval = setInterval(refreshMarks, MARK_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshMarks]);
+
+  return {
+    position,
+    marks,
+    unrealized: position ? getUnrealizedPnl(position, marks) : null,
+    loading,
+    refreshPosition,
+  };
+};
@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadPriorityFeeSetting, PRIORITY_FEE_CHANGED_EVENT, PriorityFeeSetting, savePriorityFeeSetting } from "@/lib/priority-fees";
+
+// One fee setting for every trade, so orders fired by the monitors bid like the ones placed by hand
+export const usePriorityFee = () => {
+  const [priorityFee, setPriorityFeeState] = useState<PriorityFeeSetting>(loadPriorityFeeSetting);
+
+  useEffect(() => {
+    const sync = () => setPriorityFeeState(loadPriorityFeeSetting());
+    window.addEventListener(PRIORITY_FEE_CHANGED_EVENT, sync);
+    return () => window.removeEventListener(PRIORITY_FEE_CHANGED_EVENT, sync);
+  }, []);
+
+  const setPriorityFee = useCallback((setting: PriorityFeeSetting) => {
+    savePriorityFeeSetting(setting);
+  }, []);
+
+  return { priorityFee, setPriorityFee };
+};
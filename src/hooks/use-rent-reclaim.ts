@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createConnection } from "@/lib/solana";
+import { useWallet } from "@/hooks/use-wallet";
+import { useCluster } from "@/hooks/use-cluster";
+import { findReclaimableAccounts, ReclaimBatchResult, ReclaimCandidate, reclaimAccounts } from "@/lib/rent-reclaim";
+
+export const useRentReclaim = (dustThresholdUsd: number) => {
+  const [candidates, setCandidates] = useState<ReclaimCandidate[]>([]);
+  const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const { walletAddress: owner, signer } = useWallet();
+  const { cluster } = useCluster();
+  // Stops confirmation tracking and further batches once the page is left
+  const abortRef = useRef(new AbortController());
+
+  const refreshCandidates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!owner) {
+        throw new Error("No wallet configured. Import one on the Wallets page.");
+      }
+      setWalletAddress(owner);
+
+      setCandidates(await findReclaimableAccounts(owner, createConnection(cluster), dustThresholdUsd));
+    } catch (err) {
+      console.error("[useRentReclaim] Error scanning token accounts:", err);
+      setError(err instanceof Error ? err.message : "Failed to scan token accounts.");
+    } finally {
+      setLoading(false);
+    }
+  }, [dustThresholdUsd, owner, cluster]);
+
+  const reclaim = useCallback(
+    async (selected: ReclaimCandidate[], onBatch?: (index: number, total: number) => void): Promise<ReclaimBatchResult[]> => {
+      if (!signer) {
+        throw new Error("Unlock the keystore or connect a wallet to sign reclaim transactions.");
+      }
+      try {
+        return await reclaimAccounts(selected, signer, createConnection(cluster), onBatch, abortRef.current.signal);
+      } finally {
+        await refreshCandidates();
+      }
+    },
+    [signer, cluster, refreshCandidates],
+  );
+
+  useEffect(() => {
+    refreshCandidates();
+  }, [refreshCandidates]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  return { candidates, walletAddress, loading, error, refreshCandidates, reclaim };
+};
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import { useCluster } from "@/hooks/use-cluster";
+import { getClusterRpcUrls } from "@/lib/cluster";
+import { EndpointHealth, getEndpointHealth, probeEndpoints, rankEndpoints, RPC_HEALTH_UPDATED_EVENT } from "@/lib/rpc-pool";
+
+export const useRpcHealth = () => {
+  const { cluster } = useCluster();
+  const [endpoints, setEndpoints] = useState<EndpointHealth[]>([]);
+  const [activeUrl, setActiveUrl] = useState<string | null>(null);
+  const [probing, setProbing] = useState<boolean>(false);
+
+  const sync = useCallback(() => {
+    const urls = getClusterRpcUrls(cluster);
+    // Copies, so React sees the pool's in-place updates as new state
+    setEndpoints(getEndpointHealth(urls).map((entry) => ({ ...entry })));
+    setActiveUrl(rankEndpoints(urls)[0] ?? null);
+  }, [cluster]);
+
+  const probe = useCallback(async () => {
+    setProbing(true);
+    try {
+      await probeEndpoints(getClusterRpcUrls(cluster));
+    } catch (error) {
+      console.warn("[useRpcHealth] Probe failed:", error);
+    } finally {
+      setProbing(false);
+    }
+  }, [cluster]);
+
+  useEffect(() => {
+    sync();
+    window.addEventListener(RPC_HEALTH_UPDATED_EVENT, sync);
+    return () => window.removeEventListener(RPC_HEALTH_UPDATED_EVENT, sync);
+  }, [sync]);
+
+  return { endpoints, activeUrl, probing, probe };
+};
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+
+export type SlippageSetting =
+  | { mode: "auto" }
+  | { mode: "fixed"; bps: number };
+
+const DEFAULT_SLIPPAGE: SlippageSetting = { mode: "auto" };
+
+const storageKey = (tokenAddress: string) => `slippage:${tokenAddress}`;
+
+const loadSlippage = (tokenAddress: string): SlippageSetting => {
+  try {
+    const stored = localStorage.getItem(storageKey(tokenAddress));
+    if (!stored) {
+      return DEFAULT_SLIPPAGE;
+    }
+    const parsed = JSON.parse(stored) as SlippageSetting;
+    if (parsed.mode === "fixed" && Number.isFinite(parsed.bps) && parsed.bps > 0) {
+      return { mode: "fixed", bps: parsed.bps };
+    }
+    return DEFAULT_SLIPPAGE;
+  } catch (error) {
+    console.warn("[useSlippage] Failed to read stored slippage:", error);
+    return DEFAULT_SLIPPAGE;
+  }
+};
+
+// Slippage preference, persisted per token so launches and stable pairs can use different tolerances
+export const useSlippage = (tokenAddress: string) => {
+  const [slippage, setSlippageState] = useState<SlippageSetting>(() => loadSlippage(tokenAddress));
+
+  useEffect(() => {
+    setSlippageState(loadSlippage(tokenAddress));
+  }, [tokenAddress]);
+
+  const setSlippage = useCallback((setting: SlippageSetting) => {
+    setSlippageState(setting);
+    localStorage.setItem(storageKey(tokenAddress), JSON.stringify(setting));
+  }, [tokenAddress]);
+
+  return {
+    slippage,
+    slippageBps: slippage.mode === "fixed" ? slippage.bps : undefined,
+    setSlippage,
+  };
+};
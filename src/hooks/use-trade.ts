@@ -1,22 +1,146 @@
 import { useCallback } from "react";
-import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
-import { NATIVE_MINT } from "@solana/spl-token";
+import { PublicKey } from "@solana/web3.js";
 import Decimal from "decimal.js";
-import Jupiter from "@/lib/jupiter";
+import Jupiter, { ExecuteOrderSuccessResponse, GetOrderResponse, SwapEvent } from "@/lib/jupiter";
 import { bn } from "@/lib/utils";
+import {
+  createConnection,
+  getTransactionBalanceChanges,
+  getTransferFee,
+  signTransaction,
+  simulateTransaction,
+  TransferFeeInfo,
+} from "@/lib/solana";
+import { TransactionSigner } from "@/lib/signer";
+import { SimulationResult } from "@/lib/simulation";
+import { ConfirmationStage, getTransactionSignature, trackConfirmation } from "@/lib/confirmation";
+import { saveTrade, TradeRecord } from "@/lib/trade-history";
+import { getTokenPricesUsd } from "@/lib/prices";
+import { QuoteAsset, SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+import { applyPaperFill } from "@/lib/paper-trading";
+import { assertTradingSupported } from "@/lib/cluster";
+import { getPriorityFeeLamports, preparePriorityFee, PriorityFeeQuote, readComputeBudget } from "@/lib/priority-fees";
 import { VersionedTransaction } from "@solana/web3.js";
 
+export type SwapMode = "ExactIn" | "ExactOut";
+
+export interface TradeQuote {
+  order: GetOrderResponse;
+  // Both null for quote-only orders requested without a signer, as paper trades are
+  transaction: VersionedTransaction | null;
+  simulation: SimulationResult | null;
+  // Token-2022 transfer fee charged on the traded token, if any
+  transferFee: TransferFeeInfo | null;
+  // Null for quote-only orders, which have no transaction to price
+  priorityFee: PriorityFeeQuote | null;
+}
+
+export interface TradeFill {
+  // Null for paper fills, which never touch the chain
+  signature: string | null;
+  slot: string | null;
+  inputMint: string;
+  outputMint: string;
+  inputAmount: Decimal;
+  outputAmount: Decimal;
+  swapEvents: SwapEvent[];
+}
+
+// History is best-effort: a storage failure must never fail the trade itself
+const recordTrade = async (record: TradeRecord, paper = false) => {
+  try {
+    await saveTrade(record, paper);
+  } catch (error) {
+    console.warn("[useTrade] Failed to record trade:", error);
+  }
+};
+
+// Prices at fill time let positions value fills made against any quote asset
+const fetchFillPrices = async (quoteMint: string) => {
+  try {
+    const prices = await getTokenPricesUsd([quoteMint, SOL_QUOTE_ASSET.mint]);
+    return {
+      quotePriceUsd: prices[quoteMint] ?? null,
+      solPriceUsd: prices[SOL_QUOTE_ASSET.mint] ?? null,
+    };
+  } catch (error) {
+    console.warn("[useTrade] Failed to fetch fill prices:", error);
+    return { quotePriceUsd: null, solPriceUsd: null };
+  }
+};
+
+// Ultra only lands orders exactly as it built them, so one carrying our own fee is sent through the RPC pool
+const sendWithOwnFee = async (
+  order: GetOrderResponse,
+  signedTransaction: VersionedTransaction,
+  onStage?: (stage: ConfirmationStage) => void,
+): Promise<ExecuteOrderSuccessResponse> => {
+  const connection = createConnection();
+  const confirmation = await trackConfirmation({ transaction: signedTransaction, connection, onStage });
+  if (confirmation.status === "failed") {
+    throw new Error(`Trade failed: ${confirmation.reason}`);
+  }
+  if (confirmation.status === "expired") {
+    throw new Error("Transaction expired before it landed");
+  }
+  if (confirmation.status === "unknown") {
+    throw new Error(`Could not confirm the trade: ${confirmation.reason}`);
+  }
+
+  // The quoted amounts stand in when the landed transaction cannot be read back
+  let inputAmountResult = order.inAmount;
+  let outputAmountResult = order.outAmount;
+  try {
+    // Only orders we pay for ourselves are sent this way, so the fee payer is the wallet that traded
+    const owner = signedTransaction.message.staticAccountKeys[0].toBase58();
+    const changes = await getTransactionBalanceChanges(confirmation.signature, owner, [order.inputMint, order.outputMint], connection);
+    inputAmountResult = changes[order.inputMint].neg().toFixed(0);
+    outputAmountResult = changes[order.outputMint].toFixed(0);
+  } catch (error) {
+    console.warn("[useTrade] Failed to read the fill from the landed transaction:", error);
+  }
+
+  return {
+    status: "Success",
+    signature: confirmation.signature,
+    slot: String(confirmation.slot),
+    code: 0,
+    inputAmountResult,
+    outputAmountResult,
+    swapEvents: [],
+  };
+};
+
 export const useTrade = (
   tokenAddress: string,
   tokenAtomicBalance: Decimal,
+  tokenDecimals: number,
+  quoteAsset: QuoteAsset = SOL_QUOTE_ASSET,
 ) => {
+  const { mint: quoteMint, decimals: quoteDecimals, symbol: quoteSymbol } = quoteAsset;
+
   const createTransaction = useCallback(
-    async (params: { direction: "buy" | "sell", value: number, signer: PublicKey }) => {
-      const { direction, value, signer } = params;
+    async (params: {
+      direction: "buy" | "sell",
+      value: number,
+      signer?: PublicKey,
+      slippageBps?: number,
+      swapMode?: SwapMode,
+    }): Promise<TradeQuote> => {
+      // Paper quotes never touch the cluster, live ones must be executable on it
+      if (params.signer) {
+        assertTradingSupported();
+      }
+      const { direction, value, signer, slippageBps, swapMode = "ExactIn" } = params;
 
       let atomicAmount;
-      if (direction === "buy") {
-        atomicAmount = new Decimal(value).mul(LAMPORTS_PER_SOL);
+      if (swapMode === "ExactOut") {
+        // value is the exact amount to receive: tokens when buying, quote asset when selling
+        atomicAmount = direction === "buy"
+          ? new Decimal(value).mul(10 ** tokenDecimals)
+          : new Decimal(value).mul(10 ** quoteDecimals);
+      } else if (direction === "buy") {
+        atomicAmount = new Decimal(value).mul(10 ** quoteDecimals);
       } else {
         atomicAmount = tokenAtomicBalance.mul(value).div(100);
       }
@@ -24,32 +148,288 @@ export const useTrade = (
       // Get order from Jupiter
       const data = await Jupiter.getOrder({
         inputMint:
-          direction === "buy" ? NATIVE_MINT : new PublicKey(tokenAddress),
+          direction === "buy" ? new PublicKey(quoteMint) : new PublicKey(tokenAddress),
         outputMint:
-          direction === "buy" ? new PublicKey(tokenAddress) : NATIVE_MINT,
+          direction === "buy" ? new PublicKey(tokenAddress) : new PublicKey(quoteMint),
         amount: bn(atomicAmount),
         signer,
+        slippageBps,
+        swapMode,
       });
 
       if (data.error) {
         throw new Error(data.error);
       }
 
+      // Paper quotes also work without an RPC URL, they are only missing the transfer fee then
+      const fetchTransferFee = async () => {
+        try {
+          return await getTransferFee(tokenAddress, createConnection());
+        } catch (error) {
+          console.warn("[useTrade] Failed to read transfer fee:", error);
+          return null;
+        }
+      };
+
       if (data.transaction === null) {
-        throw new Error("Invalid data from Jupiter.getOrder");
+        if (signer) {
+          throw new Error("Invalid data from Jupiter.getOrder");
+        }
+        return { order: data, transaction: null, simulation: null, transferFee: await fetchTransferFee(), priorityFee: null };
       }
 
+      const connection = createConnection();
+
       // Parse the transaction from base64
       const transactionBuffer = Buffer.from(data.transaction, "base64");
-      const transaction = VersionedTransaction.deserialize(transactionBuffer);
+      const quotedTransaction = VersionedTransaction.deserialize(transactionBuffer);
+
+      // Orders Jupiter co-signs must reach Ultra exactly as quoted, so their fee can only be reported
+      const { transaction, priorityFee } = await preparePriorityFee(
+        quotedTransaction,
+        connection,
+        data.gasless || data.swapType !== "aggregator"
+          ? "Gasless and RFQ orders are co-signed by Jupiter, its fee is kept"
+          : null,
+      );
+
+      // Dry-run the order as it will be signed, so failures are caught before anything is signed
+      const [simulation, transferFee] = await Promise.all([
+        simulateTransaction(transaction, connection),
+        fetchTransferFee(),
+      ]);
+
+      return { order: data, transaction, simulation, transferFee, priorityFee };
+    },
+    [tokenAddress, tokenAtomicBalance, tokenDecimals, quoteMint, quoteDecimals],
+  );
+
+  const buildTradeRecord = useCallback(
+    (order: GetOrderResponse, tokenSymbol: string, signature: string | null): TradeRecord => {
+      const direction = order.inputMint === tokenAddress ? "sell" : "buy";
+      return {
+        id: order.requestId,
+        walletAddress: order.taker,
+        tokenAddress,
+        tokenSymbol,
+        direction,
+        inputMint: order.inputMint,
+        inputSymbol: direction === "buy" ? quoteSymbol : tokenSymbol,
+        inputDecimals: direction === "buy" ? quoteDecimals : tokenDecimals,
+        outputMint: order.outputMint,
+        outputSymbol: direction === "buy" ? tokenSymbol : quoteSymbol,
+        outputDecimals: direction === "buy" ? tokenDecimals : quoteDecimals,
+        quotedInputAmount: order.inAmount,
+        quotedOutputAmount: order.outAmount,
+        actualInputAmount: null,
+        actualOutputAmount: null,
+        signature,
+        slot: null,
+        feeBps: order.feeBps,
+        platformFeeAmount: order.platformFee?.amount ?? null,
+        prioritizationFeeLamports: order.prioritizationFeeLamports,
+        status: "submitted",
+        error: null,
+        timestamp: Date.now(),
+      };
+    },
+    [tokenAddress, tokenDecimals, quoteSymbol, quoteDecimals],
+  );
+
+  const executeTransaction = useCallback(
+    async (params: {
+      order: GetOrderResponse,
+      signedTransaction: VersionedTransaction,
+      tokenSymbol: string,
+      // Set when the transaction carries our priority fee instead of the one Jupiter quoted
+      feeApplied?: boolean,
+      onStage?: (stage: ConfirmationStage) => void,
+    }): Promise<TradeFill> => {
+      const { order, signedTransaction, tokenSymbol, feeApplied = false, onStage } = params;
+      // The cluster may have been switched after the quote was fetched
+      assertTradingSupported();
+
+      const record = buildTradeRecord(
+        order,
+        tokenSymbol,
+        order.gasless ? null : getTransactionSignature(signedTransaction),
+      );
+      if (feeApplied) {
+        const { computeUnitLimit, microLamports } = readComputeBudget(signedTransaction);
+        record.prioritizationFeeLamports = getPriorityFeeLamports(computeUnitLimit, microLamports);
+      }
+      await recordTrade(record);
+
+      // Watch the transaction next to Ultra so the panels see each stage; Ultra alone sends it.
+      // Gasless orders still need Jupiter's fee payer signature, so they can only be tracked by Ultra.
+      const controller = new AbortController();
+      if (!order.gasless && !feeApplied) {
+        trackConfirmation({
+          transaction: signedTransaction,
+          connection: createConnection(),
+          watchOnly: true,
+          onStage,
+          signal: controller.signal,
+        }).catch((error) => {
+          console.warn("[useTrade] Confirmation tracking stopped:", error);
+        });
+      }
+
+      try {
+        // Ultra lands the transaction itself and reports the actual fill
+        const data = feeApplied
+          ? await sendWithOwnFee(order, signedTransaction, onStage)
+          : await Jupiter.executeOrder({
+            requestId: order.requestId,
+            signedTransaction,
+          });
+        // Ultra's result is final, our own copy has nothing left to report
+        controller.abort();
+
+        if (data.status === "Failed") {
+          throw new Error(`Trade failed (code ${data.code}): ${data.error}`);
+        }
+
+        await recordTrade({
+          ...record,
+          ...(await fetchFillPrices(quoteMint)),
+          actualInputAmount: data.inputAmountResult,
+          actualOutputAmount: data.outputAmountResult,
+          signature: data.signature,
+          slot: data.slot,
+          status: "success",
+        });
+
+        return {
+          signature: data.signature,
+          slot: data.slot,
+          inputMint: order.inputMint,
+          outputMint: order.outputMint,
+          inputAmount: new Decimal(data.inputAmountResult),
+          outputAmount: new Decimal(data.outputAmountResult),
+          swapEvents: data.swapEvents,
+        };
+      } catch (error) {
+        await recordTrade({
+          ...record,
+          status: "failed",
+          error: (error as Error).message,
+        });
+        throw error;
+      } finally {
+        controller.abort();
+      }
+    },
+    [quoteMint, buildTradeRecord],
+  );
+
+  // Fills the quoted amounts against the virtual ledger; nothing is signed or sent
+  const executePaperTransaction = useCallback(
+    async (params: { order: GetOrderResponse, tokenSymbol: string }): Promise<TradeFill> => {
+      const { order, tokenSymbol } = params;
+      const record = buildTradeRecord(order, tokenSymbol, null);
+
+      try {
+        await applyPaperFill({
+          inputMint: order.inputMint,
+          inputDecimals: record.inputDecimals,
+          inputAmount: new Decimal(order.inAmount),
+          outputMint: order.outputMint,
+          outputDecimals: record.outputDecimals,
+          outputAmount: new Decimal(order.outAmount),
+        });
+      } catch (error) {
+        await recordTrade({ ...record, status: "failed", error: (error as Error).message }, true);
+        throw error;
+      }
+
+      await recordTrade({
+        ...record,
+        ...(await fetchFillPrices(quoteMint)),
+        actualInputAmount: order.inAmount,
+        actualOutputAmount: order.outAmount,
+        status: "success",
+      }, true);
+
+      return {
+        signature: null,
+        slot: null,
+        inputMint: order.inputMint,
+        outputMint: order.outputMint,
+        inputAmount: new Decimal(order.inAmount),
+        outputAmount: new Decimal(order.outAmount),
+        swapEvents: [],
+      };
+    },
+    [quoteMint, buildTradeRecord],
+  );
 
+  // Fills a quote without a confirmation screen: paper quotes against the ledger, live ones once simulation passed
+  const fillQuote = useCallback(
+    async (params: {
+      quote: TradeQuote,
+      signer: TransactionSigner | null,
+      paper: boolean,
+      tokenSymbol: string,
+      onStage?: (stage: ConfirmationStage) => void,
+    }): Promise<TradeFill> => {
+      const { quote, signer, paper, tokenSymbol, onStage } = params;
+      if (paper) {
+        return executePaperTransaction({ order: quote.order, tokenSymbol });
+      }
 
-      return transaction;
+      if (!signer || !quote.transaction) {
+        throw new Error("Quote has no transaction to sign");
+      }
+      if (quote.simulation && !quote.simulation.success) {
+        throw new Error(`Simulation failed: ${quote.simulation.reason ?? "unknown error"}`);
+      }
+      const signedTransaction = await signTransaction(signer, quote.transaction);
+      return executeTransaction({
+        order: quote.order,
+        signedTransaction,
+        tokenSymbol,
+        feeApplied: quote.priorityFee?.applied ?? false,
+        onStage,
+      });
     },
-    [tokenAddress, tokenAtomicBalance],
+    [executeTransaction, executePaperTransaction],
   );
-  
+
+  // Quotes, signs and sends in one step, for orders that fire without a confirmation screen
+  const executeMarketOrder = useCallback(
+    async (params: {
+      direction: "buy" | "sell",
+      value: number,
+      signer: TransactionSigner | null,
+      paper: boolean,
+      tokenSymbol: string,
+      slippageBps?: number,
+      swapMode?: SwapMode,
+      onStage?: (stage: ConfirmationStage) => void,
+    }): Promise<TradeFill> => {
+      const { direction, value, signer, paper, tokenSymbol, slippageBps, swapMode, onStage } = params;
+      if (!paper && !signer) {
+        throw new Error("No signer available. Unlock the keystore or connect a wallet.");
+      }
+
+      const quote = await createTransaction({
+        direction,
+        value,
+        signer: paper ? undefined : signer?.publicKey,
+        slippageBps,
+        swapMode,
+      });
+      return fillQuote({ quote, signer, paper, tokenSymbol, onStage });
+    },
+    [createTransaction, fillQuote],
+  );
+
   return {
     createTransaction,
+    executeTransaction,
+    executePaperTransaction,
+    fillQuote,
+    executeMarketOrder,
   };
-};
\ No newline at end of file
+};
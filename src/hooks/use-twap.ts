@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import Decimal from "decimal.js";
+import { useTrade } from "@/hooks/use-trade";
+import { TransactionSigner } from "@/lib/signer";
+import { QuoteAsset, SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+import { buildTwapOffsets, getTwapAveragePrice, splitAtomicAmount, TwapSettings } from "@/lib/twap";
+
+export interface TwapSlice {
+  index: number;
+  inputAmount: Decimal;
+  outputAmount: Decimal;
+  priceImpactPct: number;
+  signature: string | null;
+}
+
+export interface TwapProgress {
+  status: "running" | "completed" | "aborted" | "cancelled";
+  direction: "buy" | "sell";
+  totalSlices: number;
+  slices: TwapSlice[];
+  nextSliceAt: number | null;
+  error: string | null;
+}
+
+export const useTwap = (
+  tokenAddress: string,
+  tokenAtomicBalance: Decimal,
+  tokenDecimals: number,
+  quoteAsset: QuoteAsset = SOL_QUOTE_ASSET,
+) => {
+  const trade = useTrade(tokenAddress, tokenAtomicBalance, tokenDecimals, quoteAsset);
+  const [progress, setProgress] = useState<TwapProgress | null>(null);
+  // The run outlives renders, so it reads the latest trade functions and the balance they size sells against
+  const latest = useRef({ ...trade, tokenAtomicBalance });
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    latest.current = { ...trade, tokenAtomicBalance };
+  });
+
+  // A TWAP never keeps trading from a panel that is gone
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const start = useCallback(
+    async (params: {
+      direction: "buy" | "sell",
+      // Same meaning as in the panels: quote asset to spend for buys, percentage of the balance for sells
+      value: number,
+      settings: TwapSettings,
+      signer: TransactionSigner | null,
+      paper: boolean,
+      tokenSymbol: string,
+      slippageBps?: number,
+    }) => {
+      const { direction, value, settings, signer, paper, tokenSymbol, slippageBps } = params;
+      if (cancelRef.current) {
+        throw new Error("A TWAP is already running");
+      }
+      if (!paper && !signer) {
+        throw new Error("No signer available. Unlock the keystore or connect a wallet.");
+      }
+
+      const total = direction === "buy"
+        ? new Decimal(value).mul(10 ** quoteAsset.decimals).floor()
+        : latest.current.tokenAtomicBalance.mul(value).div(100).floor();
+      const sizes = splitAtomicAmount(total, settings.slices);
+      if (sizes[0].isZero()) {
+        throw new Error("The size is too small to split into that many slices");
+      }
+
+      let cancelled = false;
+      let wake: (() => void) | null = null;
+      cancelRef.current = () => {
+        cancelled = true;
+        wake?.();
+      };
+      const sleepUntil = (at: number) =>
+        new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, Math.max(0, at - Date.now()));
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+
+      const offsets = buildTwapOffsets(settings);
+      const startedAt = Date.now();
+      const slices: TwapSlice[] = [];
+      const update = (changes: Partial<TwapProgress>) =>
+        setProgress((current) => (current ? { ...current, ...changes } : current));
+      setProgress({
+        status: "running",
+        direction,
+        totalSlices: settings.slices,
+        slices: [],
+        nextSliceAt: startedAt,
+        error: null,
+      });
+
+      try {
+        for (let index = 0; index < settings.slices; index++) {
+          update({ nextSliceAt: startedAt + offsets[index] });
+          await sleepUntil(startedAt + offsets[index]);
+          if (cancelled) {
+            update({ status: "cancelled", nextSliceAt: null });
+            return;
+          }
+
+          const { createTransaction, fillQuote, tokenAtomicBalance: balance } = latest.current;
+          let sliceValue: number;
+          if (direction === "buy") {
+            sliceValue = sizes[index].div(10 ** quoteAsset.decimals).toNumber();
+          } else {
+            // Sells are quoted as a percentage, so the slice is expressed against the balance the quote will use
+            if (balance.lt(sizes[index])) {
+              throw new Error(`Slice ${index + 1}: balance is below the slice size`);
+            }
+            sliceValue = sizes[index].div(balance).mul(100).toNumber();
+          }
+
+          const quote = await createTransaction({
+            direction,
+            value: sliceValue,
+            signer: paper ? undefined : signer?.publicKey,
+            slippageBps,
+          });
+          const priceImpactPct = new Decimal(quote.order.priceImpactPct || 0).mul(100).toNumber();
+          if (priceImpactPct > settings.maxPriceImpactPct) {
+            throw new Error(
+              `Slice ${index + 1}: price impact ${priceImpactPct.toFixed(2)}% exceeds the ${settings.maxPriceImpactPct}% limit`,
+            );
+          }
+          if (cancelled) {
+            update({ status: "cancelled", nextSliceAt: null });
+            return;
+          }
+
+          const fill = await fillQuote({ quote, signer, paper, tokenSymbol });
+          slices.push({
+            index,
+            inputAmount: fill.inputAmount,
+            outputAmount: fill.outputAmount,
+            priceImpactPct,
+            signature: fill.signature,
+          });
+          update({ slices: [...slices] });
+        }
+        update({ status: "completed", nextSliceAt: null });
+      } catch (error) {
+        update({ status: "aborted", nextSliceAt: null, error: (error as Error).message });
+      } finally {
+        cancelRef.current = null;
+      }
+    },
+    [quoteAsset.decimals],
+  );
+
+  const cancel = useCallback(() => {
+    cancelRef.current?.();
+  }, []);
+
+  return {
+    progress,
+    running: progress?.status === "running",
+    averagePrice: progress
+      ? getTwapAveragePrice(progress.slices, progress.direction, tokenDecimals, quoteAsset.decimals)
+      : null,
+    start,
+    cancel,
+  };
+};
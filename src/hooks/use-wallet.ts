@@ -0,0 +1,35 @@
+import { createContext, useContext } from "react";
+import { WalletAccount } from "@wallet-standard/base";
+import { TransactionSigner } from "@/lib/signer";
+import { SolanaStandardWallet } from "@/lib/wallet-standard";
+import { StoredWallet } from "@/lib/wallets";
+
+export interface WalletContextType {
+  wallets: StoredWallet[];
+  activeWallet: StoredWallet | null;
+  // A connected browser wallet takes over from the keystore wallet for both the address and signing
+  walletAddress: string | null;
+  // Null while the keystore is locked or empty and no browser wallet is connected
+  signer: TransactionSigner | null;
+  locked: boolean;
+  browserWallets: SolanaStandardWallet[];
+  connectedWallet: { wallet: SolanaStandardWallet; account: WalletAccount } | null;
+  connectBrowserWallet: (name: string) => Promise<void>;
+  disconnectBrowserWallet: () => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  importWallet: (label: string, privateKey: string) => Promise<void>;
+  renameWallet: (id: string, label: string) => Promise<void>;
+  removeWallet: (id: string) => Promise<void>;
+  setActiveWallet: (id: string) => void;
+}
+
+export const WalletContext = createContext<WalletContextType | undefined>(undefined);
+
+export function useWallet() {
+  const context = useContext(WalletContext);
+  if (context === undefined) {
+    throw new Error("useWallet must be used within a WalletProvider");
+  }
+  return context;
+}
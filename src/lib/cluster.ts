@@ -0,0 +1,73 @@
+import { clusterApiUrl } from "@solana/web3.js";
+import { IdentifierString } from "@wallet-standard/base";
+import { getConfig, parseUrlList } from "@/lib/config";
+
+export type ClusterId = "mainnet" | "devnet" | "custom";
+
+export interface ClusterSetting {
+  id: ClusterId;
+  // Only used by the custom cluster, e.g. a local solana-test-validator
+  customUrl: string;
+}
+
+export const CLUSTER_CHANGED_EVENT = "cluster-changed";
+
+const CLUSTER_STORAGE_KEY = "cluster";
+
+export const DEFAULT_CUSTOM_RPC_URL = "http://127.0.0.1:8899";
+
+const DEFAULT_CLUSTER: ClusterSetting = { id: "mainnet", customUrl: DEFAULT_CUSTOM_RPC_URL };
+
+export const CLUSTER_LABELS: Record<ClusterId, string> = {
+  mainnet: "Mainnet",
+  devnet: "Devnet",
+  custom: "Custom",
+};
+
+// Wallet Standard chain the signer is asked to sign for on each cluster
+const CLUSTER_CHAINS: Record<ClusterId, IdentifierString> = {
+  mainnet: "solana:mainnet",
+  devnet: "solana:devnet",
+  custom: "solana:localnet",
+};
+
+export const loadCluster = (): ClusterSetting => {
+  try {
+    const stored = localStorage.getItem(CLUSTER_STORAGE_KEY);
+    return stored ? { ...DEFAULT_CLUSTER, ...JSON.parse(stored) } : DEFAULT_CLUSTER;
+  } catch {
+    return DEFAULT_CLUSTER;
+  }
+};
+
+export const saveCluster = (cluster: ClusterSetting) => {
+  localStorage.setItem(CLUSTER_STORAGE_KEY, JSON.stringify(cluster));
+  window.dispatchEvent(new Event(CLUSTER_CHANGED_EVENT));
+};
+
+// Every endpoint the connection pool may use, primary first; empty when mainnet has no RPC configured
+export const getClusterRpcUrls = (cluster: ClusterSetting = loadCluster()): string[] => {
+  switch (cluster.id) {
+    case "mainnet": {
+      const { rpcUrl, fallbackRpcUrls } = getConfig();
+      return [rpcUrl, ...parseUrlList(fallbackRpcUrls)].filter(Boolean);
+    }
+    case "devnet":
+      return [clusterApiUrl("devnet")];
+    case "custom":
+      return [cluster.customUrl.trim()].filter(Boolean);
+  }
+};
+
+export const getClusterRpcUrl = (cluster: ClusterSetting = loadCluster()): string => getClusterRpcUrls(cluster)[0] ?? "";
+
+export const getClusterChain = (cluster: ClusterSetting = loadCluster()) => CLUSTER_CHAINS[cluster.id];
+
+// Jupiter Ultra only routes mainnet liquidity
+export const isTradingSupported = (cluster: ClusterSetting = loadCluster()) => cluster.id === "mainnet";
+
+export const assertTradingSupported = (cluster: ClusterSetting = loadCluster()) => {
+  if (!isTradingSupported(cluster)) {
+    throw new Error(`Jupiter does not serve ${CLUSTER_LABELS[cluster.id]}. Switch to Mainnet to trade.`);
+  }
+};
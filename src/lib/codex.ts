@@ -1,9 +1,20 @@
 import { Codex } from "@codex-data/sdk";
+import { getConfig } from "@/lib/config";
 
 export const getCodexClient = () => {
-  const apiKey = import.meta.env.VITE_CODEX_API_KEY;
+  const apiKey = getConfig().codexApiKey;
   if (!apiKey) {
-    throw new Error("VITE_CODEX_API_KEY is not set");
+    throw new Error("Codex API key is not set");
   }
   return new Codex(apiKey);
 };
+
+// Runs the cheapest query Codex has, so a bad key fails fast
+export const testCodexConnection = async (apiKey: string): Promise<{ networks: number; latencyMs: number }> => {
+  if (!apiKey) {
+    throw new Error("Codex API key is not set");
+  }
+  const startedAt = performance.now();
+  const result = await new Codex(apiKey).queries.getNetworks({});
+  return { networks: result.getNetworks.length, latencyMs: Math.round(performance.now() - startedAt) };
+};
@@ -0,0 +1,104 @@
+import { PublicKey } from "@solana/web3.js";
+
+export interface AppConfig {
+  codexApiKey: string;
+  // Mainnet RPC; devnet and custom clusters are picked in the cluster selector
+  rpcUrl: string;
+  // Comma-separated extra mainnet endpoints the pool fails over to
+  fallbackRpcUrls: string;
+  jupiterReferralAccount: string;
+}
+
+export type ConfigKey = keyof AppConfig;
+export type ConfigErrors = Partial<Record<ConfigKey, string>>;
+
+export const CONFIG_CHANGED_EVENT = "config-changed";
+
+const CONFIG_STORAGE_KEY = "config";
+
+// Build-time values are the defaults, local overrides win over them
+export const getEnvConfig = (): AppConfig => ({
+  codexApiKey: import.meta.env.VITE_CODEX_API_KEY ?? "",
+  rpcUrl: import.meta.env.VITE_HELIUS_RPC_URL ?? "",
+  fallbackRpcUrls: import.meta.env.VITE_FALLBACK_RPC_URLS ?? "",
+  jupiterReferralAccount: import.meta.env.VITE_JUPITER_REFERRAL_ACCOUNT ?? "",
+});
+
+export const getConfigOverrides = (): Partial<AppConfig> => {
+  try {
+    return JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const getConfig = (): AppConfig => {
+  const overrides = getConfigOverrides();
+  const config = getEnvConfig();
+  (Object.keys(config) as ConfigKey[]).forEach((key) => {
+    if (overrides[key]) {
+      config[key] = overrides[key];
+    }
+  });
+  return config;
+};
+
+export const parseUrlList = (value: string) => value.split(",").map((url) => url.trim()).filter(Boolean);
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const isPublicKey = (value: string) => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Empty values are allowed: features that need them stay disabled until they are set
+export const validateConfig = (config: AppConfig): ConfigErrors => {
+  const errors: ConfigErrors = {};
+  if (config.rpcUrl && !isHttpUrl(config.rpcUrl)) {
+    errors.rpcUrl = "Must be an http(s) URL";
+  }
+  if (!parseUrlList(config.fallbackRpcUrls).every(isHttpUrl)) {
+    errors.fallbackRpcUrls = "Must be http(s) URLs separated by commas";
+  }
+  if (config.jupiterReferralAccount && !isPublicKey(config.jupiterReferralAccount)) {
+    errors.jupiterReferralAccount = "Must be a valid Solana address";
+  }
+  return errors;
+};
+
+// Only values that differ from the env defaults are stored, so later env changes still apply to the rest
+export const saveConfig = (config: AppConfig) => {
+  const errors = validateConfig(config);
+  if (Object.keys(errors).length > 0) {
+    throw new Error(Object.values(errors).join(", "));
+  }
+
+  const defaults = getEnvConfig();
+  const overrides: Partial<AppConfig> = {};
+  (Object.keys(config) as ConfigKey[]).forEach((key) => {
+    const value = config[key].trim();
+    if (value && value !== defaults[key]) {
+      overrides[key] = value;
+    }
+  });
+
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(overrides));
+  window.dispatchEvent(new Event(CONFIG_CHANGED_EVENT));
+};
+
+export const resetConfig = () => {
+  localStorage.removeItem(CONFIG_STORAGE_KEY);
+  window.dispatchEvent(new Event(CONFIG_CHANGED_EVENT));
+};
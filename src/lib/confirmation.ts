@@ -0,0 +1,157 @@
+import { Commitment, Connection, TransactionError, VersionedTransaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import { decodeSimulationError } from "@/lib/simulation";
+
+export type ConfirmationStage = "sent" | "processed" | "confirmed" | "finalized";
+
+export type ConfirmationResult =
+  | { status: "landed"; signature: string; slot: number; stage: "confirmed" | "finalized" }
+  | { status: "failed"; signature: string; slot: number; error: TransactionError; reason: string }
+  | { status: "expired"; signature: string }
+  // Tracking gave up without a final answer from the cluster
+  | { status: "unknown"; signature: string; reason: string };
+
+interface TrackConfirmationOptions {
+  // Must already be signed; its own recentBlockhash decides when it expires
+  transaction: VersionedTransaction;
+  connection: Connection;
+  commitment?: "confirmed" | "finalized";
+  rebroadcastIntervalMs?: number;
+  // Only polls the status, for transactions another service such as Ultra is already sending
+  watchOnly?: boolean;
+  onStage?: (stage: ConfirmationStage) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2000;
+// Status checks in a row that may fail before tracking gives up
+const MAX_CONSECUTIVE_FAILURES = 5;
+// Checks a processed transaction gets to confirm once its blockhash expired, a dropped fork never does
+const EXPIRED_GRACE_CHECKS = 15;
+
+const STAGE_ORDER: ConfirmationStage[] = ["sent", "processed", "confirmed", "finalized"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const getTransactionSignature = (transaction: VersionedTransaction) => {
+  return bs58.encode(transaction.signatures[0]);
+};
+
+const isExpired = async (connection: Connection, blockhash: string, commitment: Commitment) => {
+  const { value } = await connection.isBlockhashValid(blockhash, { commitment });
+  return !value;
+};
+
+export const trackConfirmation = async ({
+  transaction,
+  connection,
+  commitment = "confirmed",
+  rebroadcastIntervalMs = DEFAULT_REBROADCAST_INTERVAL_MS,
+  watchOnly = false,
+  onStage,
+  signal,
+}: TrackConfirmationOptions): Promise<ConfirmationResult> => {
+  const signature = getTransactionSignature(transaction);
+  const rawTransaction = transaction.serialize();
+  const { recentBlockhash } = transaction.message;
+  let reportedStage = -1;
+  // Stage of the latest status check, null while no node reports the signature
+  let currentStage: ConfirmationStage | null = null;
+  let consecutiveFailures = 0;
+  let expiredChecks = 0;
+
+  const reportStage = (stage: ConfirmationStage) => {
+    const index = STAGE_ORDER.indexOf(stage);
+    if (index > reportedStage) {
+      reportedStage = index;
+      onStage?.(stage);
+    }
+  };
+
+  const broadcast = async () => {
+    if (watchOnly) return;
+    try {
+      await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+    } catch (error) {
+      // Rebroadcasts of an already-landed or already-known transaction are expected to be rejected
+      console.warn("[trackConfirmation] Rebroadcast failed:", error);
+    }
+  };
+
+  const checkStatus = async (): Promise<ConfirmationResult | null> => {
+    const { value } = await connection.getSignatureStatuses([signature]);
+    const status = value[0];
+    currentStage = status?.confirmationStatus ?? null;
+    if (!status) {
+      return null;
+    }
+    if (status.err) {
+      return {
+        status: "failed",
+        signature,
+        slot: status.slot,
+        error: status.err,
+        reason: decodeSimulationError(status.err, []),
+      };
+    }
+    if (status.confirmationStatus) {
+      reportStage(status.confirmationStatus);
+    }
+    const landed = commitment === "finalized"
+      ? status.confirmationStatus === "finalized"
+      : status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized";
+    if (landed) {
+      return {
+        status: "landed",
+        signature,
+        slot: status.slot,
+        stage: status.confirmationStatus === "finalized" ? "finalized" : "confirmed",
+      };
+    }
+    return null;
+  };
+
+  await broadcast();
+  reportStage("sent");
+
+  while (!signal?.aborted) {
+    await sleep(rebroadcastIntervalMs);
+    if (signal?.aborted) {
+      break;
+    }
+
+    try {
+      const result = await checkStatus();
+      if (result) {
+        return result;
+      }
+
+      // Only a confirmed transaction is safe from its fork being dropped, so the checks keep running until then
+      const expired = expiredChecks > 0 || await isExpired(connection, recentBlockhash, commitment);
+      consecutiveFailures = 0;
+      if (expired) {
+        // It may have landed between the status check and the expiry check
+        const latest = expiredChecks === 0 ? await checkStatus() : null;
+        if (latest) {
+          return latest;
+        }
+        // A processed transaction can still confirm, but it can no longer be sent again
+        if (currentStage === null || ++expiredChecks > EXPIRED_GRACE_CHECKS) {
+          return { status: "expired", signature };
+        }
+        continue;
+      }
+    } catch (error) {
+      // A flaky RPC response should not end tracking, the next tick retries
+      console.warn("[trackConfirmation] Status check failed:", error);
+      if (++consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        return { status: "unknown", signature, reason: (error as Error).message };
+      }
+      continue;
+    }
+
+    await broadcast();
+  }
+
+  throw new Error("Confirmation tracking was cancelled");
+};
@@ -0,0 +1,82 @@
+const DB_NAME = "mini-trading-terminal";
+const DB_VERSION = 6;
+
+export const TRADES_STORE = "trades";
+export const KEYSTORE_STORE = "keystore";
+export const PAPER_TRADES_STORE = "paper_trades";
+export const PAPER_BALANCES_STORE = "paper_balances";
+export const LIMIT_ORDERS_STORE = "limit_orders";
+export const EXIT_RULES_STORE = "exit_rules";
+export const DCA_SCHEDULES_STORE = "dca_schedules";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRADES_STORE)) {
+          const store = db.createObjectStore(TRADES_STORE, { keyPath: "id" });
+          store.createIndex("timestamp", "timestamp");
+        }
+        if (!db.objectStoreNames.contains(KEYSTORE_STORE)) {
+          db.createObjectStore(KEYSTORE_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(PAPER_TRADES_STORE)) {
+          const store = db.createObjectStore(PAPER_TRADES_STORE, { keyPath: "id" });
+          store.createIndex("timestamp", "timestamp");
+        }
+        if (!db.objectStoreNames.contains(PAPER_BALANCES_STORE)) {
+          db.createObjectStore(PAPER_BALANCES_STORE, { keyPath: "mint" });
+        }
+        if (!db.objectStoreNames.contains(LIMIT_ORDERS_STORE)) {
+          const store = db.createObjectStore(LIMIT_ORDERS_STORE, { keyPath: "id" });
+          store.createIndex("tokenAddress", "tokenAddress");
+        }
+        if (!db.objectStoreNames.contains(EXIT_RULES_STORE)) {
+          const store = db.createObjectStore(EXIT_RULES_STORE, { keyPath: "id" });
+          store.createIndex("tokenAddress", "tokenAddress");
+        }
+        if (!db.objectStoreNames.contains(DCA_SCHEDULES_STORE)) {
+          const store = db.createObjectStore(DCA_SCHEDULES_STORE, { keyPath: "id" });
+          store.createIndex("tokenAddress", "tokenAddress");
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs fn inside a single-store transaction and resolves once the transaction commits
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await fn(transaction.objectStore(storeName));
+  await completed;
+  return result;
+};
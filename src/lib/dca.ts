@@ -0,0 +1,255 @@
+import { DCA_SCHEDULES_STORE, requestToPromise, withStore } from "@/lib/db";
+
+export type DcaStatus = "active" | "paused" | "completed" | "cancelled";
+export type DcaAmountUnit = "sol" | "usd";
+export type DcaRunStatus = "filled" | "failed" | "skipped" | "missed";
+// What happens to runs that came due while the tab was asleep or the wallet was locked:
+// "skip" drops them and keeps the schedule's end time, "defer" keeps them and pushes the end time out
+export type DcaMissedRunPolicy = "skip" | "defer";
+
+export interface DcaRun {
+  scheduledAt: number;
+  executedAt: number;
+  status: DcaRunStatus;
+  // Codex USD price of the token when the run was checked
+  priceUsd: number | null;
+  // Human-readable amounts of a fill: SOL paid or received, and tokens received or sold
+  solAmount: number | null;
+  tokenAmount: number | null;
+  signature: string | null;
+  message: string | null;
+}
+
+export interface DcaSchedule {
+  id: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  direction: "buy" | "sell";
+  // SOL or USD worth to spend on each buy, or to receive from each sell
+  amount: number;
+  amountUnit: DcaAmountUnit;
+  intervalMs: number;
+  totalRuns: number;
+  // Runs are skipped while the token's USD price is outside these bounds
+  minPriceUsd: number | null;
+  maxPriceUsd: number | null;
+  missedRunPolicy: DcaMissedRunPolicy;
+  slippageBps?: number;
+  // Paper schedules trade against the virtual ledger, like paper limit orders
+  paper: boolean;
+  // Wallet that started the schedule, null for paper schedules. Live runs only fire while it is the signer.
+  walletAddress?: string | null;
+  status: DcaStatus;
+  nextRunAt: number;
+  // Every run that used up an iteration, whether it filled or not
+  runs: DcaRun[];
+  // Runs pushed out under the "defer" policy
+  deferredRuns: number;
+  createdAt: number;
+}
+
+export const DCA_SCHEDULES_UPDATED_EVENT = "dca-schedules-updated";
+
+export const saveDcaSchedule = async (schedule: DcaSchedule): Promise<void> => {
+  await withStore(DCA_SCHEDULES_STORE, "readwrite", async (store) => {
+    await requestToPromise(store.put(schedule));
+  });
+  window.dispatchEvent(new Event(DCA_SCHEDULES_UPDATED_EVENT));
+};
+
+export const getDcaSchedules = async (tokenAddress?: string): Promise<DcaSchedule[]> => {
+  const schedules = await withStore(DCA_SCHEDULES_STORE, "readonly", (store) => {
+    const request = tokenAddress ? store.index("tokenAddress").getAll(tokenAddress) : store.getAll();
+    return requestToPromise(request as IDBRequest<DcaSchedule[]>);
+  });
+  return schedules.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getDcaSchedule = async (id: string): Promise<DcaSchedule | undefined> => {
+  return withStore(DCA_SCHEDULES_STORE, "readonly", (store) => {
+    return requestToPromise(store.get(id) as IDBRequest<DcaSchedule | undefined>);
+  });
+};
+
+// The first run happens right away, the rest every interval after it
+export const createDcaSchedule = async (
+  fields: Pick<
+    DcaSchedule,
+    | "tokenAddress"
+    | "tokenSymbol"
+    | "tokenDecimals"
+    | "direction"
+    | "amount"
+    | "amountUnit"
+    | "intervalMs"
+    | "totalRuns"
+    | "minPriceUsd"
+    | "maxPriceUsd"
+    | "missedRunPolicy"
+    | "slippageBps"
+    | "paper"
+    | "walletAddress"
+  >,
+): Promise<DcaSchedule> => {
+  const now = Date.now();
+  const schedule: DcaSchedule = {
+    ...fields,
+    id: crypto.randomUUID(),
+    status: "active",
+    nextRunAt: now,
+    runs: [],
+    deferredRuns: 0,
+    createdAt: now,
+  };
+  await saveDcaSchedule(schedule);
+  return schedule;
+};
+
+// Status changes re-read the schedule so they never overwrite a run recorded in the meantime
+const setDcaStatus = async (id: string, status: DcaStatus, allowedFrom: DcaStatus[], changes: Partial<DcaSchedule> = {}) => {
+  const latest = await getDcaSchedule(id);
+  if (!latest || !allowedFrom.includes(latest.status)) {
+    throw new Error(`Schedule is ${latest?.status ?? "gone"}`);
+  }
+  await saveDcaSchedule({ ...latest, ...changes, status });
+};
+
+export const pauseDcaSchedule = (id: string) => setDcaStatus(id, "paused", ["active"]);
+
+// Time spent paused is not missed: a run that came due meanwhile happens right away, once
+export const resumeDcaSchedule = async (id: string) => {
+  const latest = await getDcaSchedule(id);
+  await setDcaStatus(id, "active", ["paused"], { nextRunAt: Math.max(latest?.nextRunAt ?? 0, Date.now()) });
+};
+
+export const cancelDcaSchedule = (id: string) => setDcaStatus(id, "cancelled", ["active", "paused"]);
+
+// Runs that are more than a whole interval late are missed; a run late by less than that still happens
+export const getMissedRunCount = (schedule: DcaSchedule, now = Date.now()) => {
+  if (now < schedule.nextRunAt) return 0;
+  const remaining = schedule.totalRuns - schedule.runs.length;
+  return Math.min(Math.floor((now - schedule.nextRunAt) / schedule.intervalMs), Math.max(remaining - 1, 0));
+};
+
+/**
+ * Applies the schedule's missed-run policy before a late run executes. Skipped slots use up
+ * iterations and are logged as missed; deferred slots are kept and the schedule restarts from now.
+ */
+export const applyMissedRuns = (schedule: DcaSchedule, now = Date.now()): DcaSchedule => {
+  const missed = getMissedRunCount(schedule, now);
+  if (missed === 0) return schedule;
+
+  if (schedule.missedRunPolicy === "defer") {
+    return { ...schedule, nextRunAt: now, deferredRuns: schedule.deferredRuns + missed };
+  }
+
+  const missedRuns: DcaRun[] = Array.from({ length: missed }, (_, index) => ({
+    scheduledAt: schedule.nextRunAt + index * schedule.intervalMs,
+    executedAt: now,
+    status: "missed",
+    priceUsd: null,
+    solAmount: null,
+    tokenAmount: null,
+    signature: null,
+    message: "App was not running",
+  }));
+  return {
+    ...schedule,
+    runs: [...schedule.runs, ...missedRuns],
+    nextRunAt: schedule.nextRunAt + missed * schedule.intervalMs,
+  };
+};
+
+// Records a run and moves the schedule on to its next slot, completing it after the last one
+export const recordDcaRun = (schedule: DcaSchedule, run: DcaRun): DcaSchedule => {
+  const runs = [...schedule.runs, run];
+  const completed = runs.length >= schedule.totalRuns;
+  return {
+    ...schedule,
+    runs,
+    nextRunAt: schedule.nextRunAt + schedule.intervalMs,
+    status: completed ? "completed" : schedule.status,
+  };
+};
+
+/**
+ * Takes the schedule's due slot in one transaction, so another tick or tab that loaded the same schedule
+ * cannot run it again. The run is stored as interrupted until finishDcaRun replaces it with the result.
+ */
+export const claimDcaRun = async (
+  id: string,
+  now = Date.now(),
+): Promise<{ previous: DcaSchedule; schedule: DcaSchedule; run: DcaRun } | null> => {
+  const claimed = await withStore(DCA_SCHEDULES_STORE, "readwrite", async (store) => {
+    const previous = await requestToPromise(store.get(id) as IDBRequest<DcaSchedule | undefined>);
+    if (!previous || previous.status !== "active" || previous.nextRunAt > now) {
+      return null;
+    }
+
+    const scheduled = applyMissedRuns(previous, now);
+    const run: DcaRun = {
+      scheduledAt: scheduled.nextRunAt,
+      executedAt: now,
+      status: "failed",
+      priceUsd: null,
+      solAmount: null,
+      tokenAmount: null,
+      signature: null,
+      message: "Interrupted before the run finished. Check the trade history.",
+    };
+    const schedule = recordDcaRun(scheduled, run);
+    await requestToPromise(store.put(schedule));
+    return { previous, schedule, run };
+  });
+  if (claimed) {
+    window.dispatchEvent(new Event(DCA_SCHEDULES_UPDATED_EVENT));
+  }
+  return claimed;
+};
+
+// Replaces a claimed run with its result; a pause or cancel made while it was in flight is kept
+export const finishDcaRun = async (id: string, run: DcaRun): Promise<DcaSchedule | null> => {
+  const updated = await withStore(DCA_SCHEDULES_STORE, "readwrite", async (store) => {
+    const latest = await requestToPromise(store.get(id) as IDBRequest<DcaSchedule | undefined>);
+    if (!latest) {
+      return null;
+    }
+    const schedule: DcaSchedule = {
+      ...latest,
+      runs: latest.runs.map((candidate) => (candidate.scheduledAt === run.scheduledAt ? run : candidate)),
+    };
+    await requestToPromise(store.put(schedule));
+    return schedule;
+  });
+  if (updated) {
+    window.dispatchEvent(new Event(DCA_SCHEDULES_UPDATED_EVENT));
+  }
+  return updated;
+};
+
+export const isDcaPriceInBounds = (schedule: DcaSchedule, priceUsd: number) => {
+  if (schedule.minPriceUsd !== null && priceUsd < schedule.minPriceUsd) return false;
+  if (schedule.maxPriceUsd !== null && priceUsd > schedule.maxPriceUsd) return false;
+  return true;
+};
+
+export const getDcaFillStats = (schedule: DcaSchedule) => {
+  const fills = schedule.runs.filter((run) => run.status === "filled" && run.solAmount !== null && run.tokenAmount);
+  const solTotal = fills.reduce((sum, run) => sum + (run.solAmount ?? 0), 0);
+  const tokenTotal = fills.reduce((sum, run) => sum + (run.tokenAmount ?? 0), 0);
+  return {
+    fillCount: fills.length,
+    solTotal,
+    tokenTotal,
+    // SOL per token across every fill, weighted by size
+    averagePriceSol: tokenTotal > 0 ? solTotal / tokenTotal : null,
+  };
+};
+
+export const formatDcaInterval = (intervalMs: number) => {
+  const minutes = intervalMs / 60_000;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = minutes / 60;
+  return Number.isInteger(hours) ? `${hours}h` : `${minutes}m`;
+};
@@ -0,0 +1,178 @@
+import { EXIT_RULES_STORE, requestToPromise, withStore } from "@/lib/db";
+
+export type ExitRuleKind = "stop-loss" | "take-profit" | "trailing-stop";
+export type ExitRuleStatus = "armed" | "triggered" | "filled" | "failed" | "cancelled";
+// A trigger is either an absolute USD price or a % move: from entry, or from the peak for trailing stops
+export type ExitTriggerType = "price" | "percent";
+
+export interface ExitRuleEvent {
+  type: "armed" | "triggered" | "filled" | "failed" | "cancelled";
+  timestamp: number;
+  // Token price in USD when the event happened
+  price: number | null;
+  message: string | null;
+}
+
+export interface ExitRule {
+  id: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  kind: ExitRuleKind;
+  triggerType: ExitTriggerType;
+  // USD price, or percentage, depending on triggerType; for trailing stops a price is the distance below the peak
+  triggerValue: number;
+  // Average entry of the position when the rule was armed, which percent triggers are measured from
+  entryPriceUsd: number | null;
+  // Highest price seen since the rule was armed; only trailing stops track it
+  peakPriceUsd: number | null;
+  // Percentage of the balance to sell when the rule fires
+  sellPercentage: number;
+  slippageBps?: number;
+  // Paper rules sell from the virtual ledger, like paper limit orders
+  paper: boolean;
+  // Wallet whose position the rule protects, null for paper rules. Live rules only fire while it is the signer.
+  walletAddress?: string | null;
+  status: ExitRuleStatus;
+  signature: string | null;
+  error: string | null;
+  events: ExitRuleEvent[];
+  createdAt: number;
+}
+
+export const EXIT_RULES_UPDATED_EVENT = "exit-rules-updated";
+
+export const EXIT_RULE_LABELS: Record<ExitRuleKind, string> = {
+  "stop-loss": "Stop-loss",
+  "take-profit": "Take-profit",
+  "trailing-stop": "Trailing stop",
+};
+
+export const saveExitRule = async (rule: ExitRule): Promise<void> => {
+  await withStore(EXIT_RULES_STORE, "readwrite", async (store) => {
+    await requestToPromise(store.put(rule));
+  });
+  window.dispatchEvent(new Event(EXIT_RULES_UPDATED_EVENT));
+};
+
+export const getExitRules = async (tokenAddress?: string): Promise<ExitRule[]> => {
+  const rules = await withStore(EXIT_RULES_STORE, "readonly", (store) => {
+    const request = tokenAddress ? store.index("tokenAddress").getAll(tokenAddress) : store.getAll();
+    return requestToPromise(request as IDBRequest<ExitRule[]>);
+  });
+  return rules.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const createExitRule = async (
+  fields: Pick<
+    ExitRule,
+    "tokenAddress" | "tokenSymbol" | "tokenDecimals" | "kind" | "triggerType" | "triggerValue" | "entryPriceUsd" | "sellPercentage" | "slippageBps" | "paper" | "walletAddress"
+  >,
+  currentPriceUsd: number | null,
+): Promise<ExitRule> => {
+  if (fields.triggerType === "percent" && fields.kind !== "trailing-stop" && fields.entryPriceUsd === null) {
+    throw new Error("Percent triggers need a recorded entry price");
+  }
+  if (fields.kind === "trailing-stop" && currentPriceUsd === null) {
+    throw new Error("Trailing stops need a current price to trail from");
+  }
+
+  const now = Date.now();
+  const rule: ExitRule = {
+    ...fields,
+    id: crypto.randomUUID(),
+    peakPriceUsd: fields.kind === "trailing-stop" ? currentPriceUsd : null,
+    status: "armed",
+    signature: null,
+    error: null,
+    events: [{ type: "armed", timestamp: now, price: currentPriceUsd, message: null }],
+    createdAt: now,
+  };
+  await saveExitRule(rule);
+  return rule;
+};
+
+// Moves a rule to a new state and appends the matching event to its log
+export const updateExitRule = async (
+  rule: ExitRule,
+  event: Omit<ExitRuleEvent, "timestamp">,
+  changes: Partial<ExitRule> = {},
+): Promise<ExitRule> => {
+  const updated: ExitRule = {
+    ...rule,
+    ...changes,
+    events: [...rule.events, { ...event, timestamp: Date.now() }],
+  };
+  await saveExitRule(updated);
+  return updated;
+};
+
+/**
+ * Moves an armed rule to a new state in one transaction, only if the stored copy is still armed and has no
+ * events beyond those `rule` was read with. Returns null when the monitor, a cancel or another tab got there first.
+ */
+export const updateArmedExitRule = async (
+  rule: ExitRule,
+  event: Omit<ExitRuleEvent, "timestamp">,
+  changes: Partial<ExitRule> = {},
+): Promise<ExitRule | null> => {
+  const updated = await withStore(EXIT_RULES_STORE, "readwrite", async (store) => {
+    const latest = await requestToPromise(store.get(rule.id) as IDBRequest<ExitRule | undefined>);
+    if (!latest || latest.status !== "armed" || latest.events.length !== rule.events.length) {
+      return null;
+    }
+    // Built on the stored copy so a trailing peak raised meanwhile is kept
+    const next: ExitRule = {
+      ...latest,
+      ...changes,
+      events: [...latest.events, { ...event, timestamp: Date.now() }],
+    };
+    await requestToPromise(store.put(next));
+    return next;
+  });
+  if (updated) {
+    window.dispatchEvent(new Event(EXIT_RULES_UPDATED_EVENT));
+  }
+  return updated;
+};
+
+// Reads and writes in one transaction so a rule that fired or was cancelled meanwhile is never put back
+export const raiseTrailingPeak = async (id: string, priceUsd: number): Promise<void> => {
+  const raised = await withStore(EXIT_RULES_STORE, "readwrite", async (store) => {
+    const rule = await requestToPromise(store.get(id) as IDBRequest<ExitRule | undefined>);
+    if (!rule || rule.status !== "armed" || priceUsd <= (rule.peakPriceUsd ?? 0)) {
+      return false;
+    }
+    await requestToPromise(store.put({ ...rule, peakPriceUsd: priceUsd }));
+    return true;
+  });
+  if (raised) {
+    window.dispatchEvent(new Event(EXIT_RULES_UPDATED_EVENT));
+  }
+};
+
+// The USD price at which the rule fires, or null when it cannot be computed yet
+export const getExitTriggerPrice = (rule: ExitRule): number | null => {
+  const { kind, triggerType, triggerValue, entryPriceUsd, peakPriceUsd } = rule;
+  if (kind === "trailing-stop") {
+    if (peakPriceUsd === null) return null;
+    return triggerType === "percent" ? peakPriceUsd * (1 - triggerValue / 100) : peakPriceUsd - triggerValue;
+  }
+  if (triggerType === "price") return triggerValue;
+  if (entryPriceUsd === null) return null;
+  return kind === "stop-loss" ? entryPriceUsd * (1 - triggerValue / 100) : entryPriceUsd * (1 + triggerValue / 100);
+};
+
+export const isExitRuleTriggered = (rule: ExitRule, priceUsd: number) => {
+  const triggerPrice = getExitTriggerPrice(rule);
+  if (triggerPrice === null) return false;
+  return rule.kind === "take-profit" ? priceUsd >= triggerPrice : priceUsd <= triggerPrice;
+};
+
+export const describeExitTrigger = (rule: Pick<ExitRule, "kind" | "triggerType" | "triggerValue">) => {
+  if (rule.triggerType === "price") {
+    return rule.kind === "trailing-stop" ? `$${rule.triggerValue} below peak` : `at $${rule.triggerValue}`;
+  }
+  if (rule.kind === "trailing-stop") return `${rule.triggerValue}% below peak`;
+  return `${rule.kind === "stop-loss" ? "-" : "+"}${rule.triggerValue}% from entry`;
+};
@@ -1,6 +1,7 @@
 import { PublicKey, VersionedTransaction } from "@solana/web3.js";
 import axios, { AxiosInstance } from "axios";
 import BN from "bn.js";
+import { getConfig } from "@/lib/config";
 
 export interface GetOrderResponse {
   error: string | null;
@@ -89,16 +90,23 @@ export default class Jupiter {
     inputMint: PublicKey;
     outputMint: PublicKey;
     amount: BN;
-    signer: PublicKey;
+    // Without a taker Ultra only quotes and returns no transaction
+    signer?: PublicKey;
+    slippageBps?: number;
+    swapMode?: "ExactIn" | "ExactOut";
   }) {
     const { data } = await this.client.get<GetOrderResponse>("order", {
       params: {
         inputMint: args.inputMint.toString(),
         outputMint: args.outputMint.toString(),
         amount: args.amount.toString(),
-        taker: args.signer.toString(),
-        referralAccount: import.meta.env.VITE_JUPITER_REFERRAL_ACCOUNT!,
-        referralFee: 100,
+        taker: args.signer?.toString(),
+        // Paper quotes may be requested before a referral account is configured
+        referralAccount: getConfig().jupiterReferralAccount || undefined,
+        referralFee: getConfig().jupiterReferralAccount ? 100 : undefined,
+        // Leaving slippageBps unset lets Ultra pick a dynamic slippage for the pair
+        slippageBps: args.slippageBps,
+        swapMode: args.swapMode,
       },
     });
     return data;
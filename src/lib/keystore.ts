@@ -0,0 +1,84 @@
+import { KEYSTORE_STORE, requestToPromise, withStore } from "@/lib/db";
+
+// Only public details are stored in the clear; the secret key is AES-GCM encrypted with a passphrase-derived key
+export interface KeystoreEntry {
+  id: string;
+  label: string;
+  publicKey: string;
+  addedAt: number;
+  // Base64 encoded PBKDF2 salt, AES-GCM nonce and encrypted secret key
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+export const encryptSecret = async (
+  secret: string,
+  passphrase: string,
+): Promise<Pick<KeystoreEntry, "salt" | "iv" | "ciphertext">> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(secret));
+
+  return {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+export const decryptSecret = async (entry: KeystoreEntry, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(entry.salt));
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(entry.iv) },
+      key,
+      fromBase64(entry.ciphertext),
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM authentication fails the same way for a wrong passphrase and for tampered data
+    throw new Error("Incorrect passphrase");
+  }
+};
+
+export const getKeystoreEntries = async (): Promise<KeystoreEntry[]> => {
+  const entries = await withStore(KEYSTORE_STORE, "readonly", (store) => {
+    return requestToPromise(store.getAll() as IDBRequest<KeystoreEntry[]>);
+  });
+  return entries.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+export const putKeystoreEntry = async (entry: KeystoreEntry): Promise<void> => {
+  await withStore(KEYSTORE_STORE, "readwrite", (store) => requestToPromise(store.put(entry)));
+};
+
+export const deleteKeystoreEntry = async (id: string): Promise<void> => {
+  await withStore(KEYSTORE_STORE, "readwrite", (store) => requestToPromise(store.delete(id)));
+};
@@ -0,0 +1,136 @@
+import { LIMIT_ORDERS_STORE, requestToPromise, withStore } from "@/lib/db";
+
+export type LimitOrderStatus = "open" | "triggered" | "filled" | "failed" | "cancelled" | "expired";
+export type LimitPriceUnit = "usd" | "sol";
+
+export interface LimitOrderEvent {
+  type: "created" | "edited" | "triggered" | "filled" | "failed" | "cancelled" | "expired";
+  timestamp: number;
+  // Token price in the order's unit when the event happened
+  price: number | null;
+  message: string | null;
+}
+
+export interface LimitOrder {
+  id: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  direction: "buy" | "sell";
+  // Buys trigger at or below the target, sells at or above it
+  targetPrice: number;
+  priceUnit: LimitPriceUnit;
+  // Same meaning as in the trading panels: SOL to spend for buys, percentage of the balance for sells
+  size: number;
+  slippageBps?: number;
+  expiresAt: number | null;
+  // Paper orders fill against the virtual ledger, whatever mode is active when they trigger
+  paper: boolean;
+  // Wallet that placed the order, null for paper orders. Live orders only fire while this wallet is the signer.
+  walletAddress?: string | null;
+  status: LimitOrderStatus;
+  signature: string | null;
+  error: string | null;
+  events: LimitOrderEvent[];
+  createdAt: number;
+}
+
+export const LIMIT_ORDERS_UPDATED_EVENT = "limit-orders-updated";
+
+export const saveLimitOrder = async (order: LimitOrder): Promise<void> => {
+  await withStore(LIMIT_ORDERS_STORE, "readwrite", async (store) => {
+    await requestToPromise(store.put(order));
+  });
+  window.dispatchEvent(new Event(LIMIT_ORDERS_UPDATED_EVENT));
+};
+
+export const getLimitOrders = async (tokenAddress?: string): Promise<LimitOrder[]> => {
+  const orders = await withStore(LIMIT_ORDERS_STORE, "readonly", (store) => {
+    const request = tokenAddress ? store.index("tokenAddress").getAll(tokenAddress) : store.getAll();
+    return requestToPromise(request as IDBRequest<LimitOrder[]>);
+  });
+  return orders.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const createLimitOrder = async (
+  fields: Pick<
+    LimitOrder,
+    "tokenAddress" | "tokenSymbol" | "tokenDecimals" | "direction" | "targetPrice" | "priceUnit" | "size" | "slippageBps" | "expiresAt" | "paper" | "walletAddress"
+  >,
+): Promise<LimitOrder> => {
+  const now = Date.now();
+  const order: LimitOrder = {
+    ...fields,
+    id: crypto.randomUUID(),
+    status: "open",
+    signature: null,
+    error: null,
+    events: [{ type: "created", timestamp: now, price: null, message: null }],
+    createdAt: now,
+  };
+  await saveLimitOrder(order);
+  return order;
+};
+
+// Moves an order to a new state and appends the matching event to its log
+export const updateLimitOrder = async (
+  order: LimitOrder,
+  event: Omit<LimitOrderEvent, "timestamp">,
+  changes: Partial<LimitOrder> = {},
+): Promise<LimitOrder> => {
+  const updated: LimitOrder = {
+    ...order,
+    ...changes,
+    events: [...order.events, { ...event, timestamp: Date.now() }],
+  };
+  await saveLimitOrder(updated);
+  return updated;
+};
+
+/**
+ * Moves an open order to a new state in one transaction, only if the stored copy is still open and has not
+ * changed since `order` was read. Returns null when the monitor, an edit or another tab got there first.
+ */
+export const updateOpenLimitOrder = async (
+  order: LimitOrder,
+  event: Omit<LimitOrderEvent, "timestamp">,
+  changes: Partial<LimitOrder> = {},
+): Promise<LimitOrder | null> => {
+  const updated = await withStore(LIMIT_ORDERS_STORE, "readwrite", async (store) => {
+    const latest = await requestToPromise(store.get(order.id) as IDBRequest<LimitOrder | undefined>);
+    // Every change appends an event, so an unchanged log means an unchanged order
+    if (!latest || latest.status !== "open" || latest.events.length !== order.events.length) {
+      return null;
+    }
+    const next: LimitOrder = {
+      ...latest,
+      ...changes,
+      events: [...latest.events, { ...event, timestamp: Date.now() }],
+    };
+    await requestToPromise(store.put(next));
+    return next;
+  });
+  if (updated) {
+    window.dispatchEvent(new Event(LIMIT_ORDERS_UPDATED_EVENT));
+  }
+  return updated;
+};
+
+// Converts Codex USD prices into the unit an order is placed in
+export const getOrderPrice = (unit: LimitPriceUnit, tokenPriceUsd: number | null | undefined, solPriceUsd: number | null | undefined) => {
+  if (tokenPriceUsd === null || tokenPriceUsd === undefined) return null;
+  if (unit === "usd") return tokenPriceUsd;
+  return solPriceUsd ? tokenPriceUsd / solPriceUsd : null;
+};
+
+export const formatOrderPrice = (price: number, unit: LimitPriceUnit) => {
+  return unit === "usd" ? `$${price.toPrecision(6)}` : `${price.toPrecision(6)} SOL`;
+};
+
+export const isLimitOrderTriggered = (order: LimitOrder, price: number) => {
+  return order.direction === "buy" ? price <= order.targetPrice : price >= order.targetPrice;
+};
+
+export const isLimitOrderExpired = (order: LimitOrder, now = Date.now()) => {
+  return order.expiresAt !== null && order.expiresAt <= now;
+};
@@ -0,0 +1,97 @@
+import { Keypair, VersionedTransaction } from "@solana/web3.js";
+import { registerWallet } from "@wallet-standard/wallet";
+import { Wallet, WalletAccount, WalletIcon } from "@wallet-standard/base";
+import {
+  StandardConnect,
+  StandardConnectFeature,
+  StandardDisconnect,
+  StandardDisconnectFeature,
+  StandardEvents,
+  StandardEventsFeature,
+  StandardEventsListeners,
+} from "@wallet-standard/features";
+import { SolanaSignTransaction, SolanaSignTransactionFeature } from "@solana/wallet-standard-features";
+import { SOLANA_MAINNET_CHAIN } from "@/lib/wallet-standard";
+
+const MOCK_WALLET_ICON: WalletIcon =
+  "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAzMiAzMiI+PGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiM4ODgiLz48L3N2Zz4=";
+
+// Minimal Wallet Standard wallet backed by a local keypair, for exercising the browser wallet flow without an extension
+class MockWallet implements Wallet {
+  readonly version = "1.0.0" as const;
+  readonly name = "Mock Wallet";
+  readonly icon = MOCK_WALLET_ICON;
+  readonly chains = [SOLANA_MAINNET_CHAIN, "solana:devnet", "solana:localnet"] as const;
+
+  #keypair: Keypair;
+  #account: WalletAccount;
+  #connected = false;
+  #listeners: Array<StandardEventsListeners["change"]> = [];
+
+  constructor(keypair: Keypair) {
+    this.#keypair = keypair;
+    this.#account = {
+      address: keypair.publicKey.toBase58(),
+      publicKey: keypair.publicKey.toBytes(),
+      chains: this.chains,
+      features: [SolanaSignTransaction],
+      label: "Mock Account",
+    };
+  }
+
+  get accounts() {
+    return this.#connected ? [this.#account] : [];
+  }
+
+  get features(): StandardConnectFeature & StandardDisconnectFeature & StandardEventsFeature & SolanaSignTransactionFeature {
+    return {
+      [StandardConnect]: {
+        version: "1.0.0",
+        connect: async () => {
+          this.#connected = true;
+          this.#emitChange();
+          return { accounts: this.accounts };
+        },
+      },
+      [StandardDisconnect]: {
+        version: "1.0.0",
+        disconnect: async () => {
+          this.#connected = false;
+          this.#emitChange();
+        },
+      },
+      [StandardEvents]: {
+        version: "1.0.0",
+        on: (_event, listener) => {
+          this.#listeners.push(listener);
+          return () => {
+            this.#listeners = this.#listeners.filter((candidate) => candidate !== listener);
+          };
+        },
+      },
+      [SolanaSignTransaction]: {
+        version: "1.0.0",
+        supportedTransactionVersions: ["legacy", 0],
+        signTransaction: async (...inputs) => {
+          if (!this.#connected) {
+            throw new Error("Mock wallet is not connected");
+          }
+          return inputs.map(({ transaction }) => {
+            const parsed = VersionedTransaction.deserialize(transaction);
+            parsed.sign([this.#keypair]);
+            return { signedTransaction: parsed.serialize() };
+          });
+        },
+      },
+    };
+  }
+
+  #emitChange() {
+    this.#listeners.forEach((listener) => listener({ accounts: this.accounts }));
+  }
+}
+
+export const registerMockWallet = (keypair: Keypair = Keypair.generate()) => {
+  registerWallet(new MockWallet(keypair));
+  return keypair.publicKey.toBase58();
+};
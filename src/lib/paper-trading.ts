@@ -0,0 +1,92 @@
+import Decimal from "decimal.js";
+import { PAPER_BALANCES_STORE, requestToPromise, withStore } from "@/lib/db";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+
+export interface PaperBalance {
+  mint: string;
+  // Atomic amount, as a string to keep full precision
+  amount: string;
+  decimals: number;
+}
+
+export const PAPER_MODE_CHANGED_EVENT = "paper-mode-changed";
+export const PAPER_LEDGER_UPDATED_EVENT = "paper-ledger-updated";
+
+const PAPER_MODE_STORAGE_KEY = "paper-trading";
+
+// Every new or reset ledger starts with 10 SOL
+const INITIAL_PAPER_SOL = new Decimal(10).mul(10 ** SOL_QUOTE_ASSET.decimals);
+
+export const isPaperTradingEnabled = () => localStorage.getItem(PAPER_MODE_STORAGE_KEY) === "true";
+
+export const setPaperTradingEnabled = (enabled: boolean) => {
+  localStorage.setItem(PAPER_MODE_STORAGE_KEY, String(enabled));
+  window.dispatchEvent(new Event(PAPER_MODE_CHANGED_EVENT));
+};
+
+const initialBalances = (): PaperBalance[] => [
+  { mint: SOL_QUOTE_ASSET.mint, amount: INITIAL_PAPER_SOL.toFixed(), decimals: SOL_QUOTE_ASSET.decimals },
+];
+
+const notifyLedgerUpdated = () => window.dispatchEvent(new Event(PAPER_LEDGER_UPDATED_EVENT));
+
+export const getPaperBalances = async (): Promise<PaperBalance[]> => {
+  const balances = await withStore(PAPER_BALANCES_STORE, "readwrite", async (store) => {
+    const stored = await requestToPromise(store.getAll() as IDBRequest<PaperBalance[]>);
+    if (stored.length > 0) {
+      return stored;
+    }
+    // Seed the ledger on first use
+    const seeded = initialBalances();
+    await Promise.all(seeded.map((balance) => requestToPromise(store.put(balance))));
+    return seeded;
+  });
+  return balances;
+};
+
+export const getPaperBalance = (balances: PaperBalance[], mint: string) => {
+  return new Decimal(balances.find((balance) => balance.mint === mint)?.amount ?? 0);
+};
+
+// Moves the quoted amounts through the ledger in one transaction, refusing fills the virtual wallet cannot pay for
+export const applyPaperFill = async (fill: {
+  inputMint: string;
+  inputDecimals: number;
+  inputAmount: Decimal;
+  outputMint: string;
+  outputDecimals: number;
+  outputAmount: Decimal;
+}): Promise<void> => {
+  await withStore(PAPER_BALANCES_STORE, "readwrite", async (store) => {
+    const input = await requestToPromise(store.get(fill.inputMint) as IDBRequest<PaperBalance | undefined>);
+    const output = await requestToPromise(store.get(fill.outputMint) as IDBRequest<PaperBalance | undefined>);
+
+    const available = new Decimal(input?.amount ?? 0);
+    if (available.lt(fill.inputAmount)) {
+      throw new Error(
+        `Insufficient paper balance: need ${fill.inputAmount.div(10 ** fill.inputDecimals).toString()}, ` +
+        `have ${available.div(10 ** fill.inputDecimals).toString()}`
+      );
+    }
+
+    await requestToPromise(store.put({
+      mint: fill.inputMint,
+      amount: available.sub(fill.inputAmount).toFixed(),
+      decimals: fill.inputDecimals,
+    }));
+    await requestToPromise(store.put({
+      mint: fill.outputMint,
+      amount: new Decimal(output?.amount ?? 0).add(fill.outputAmount).toFixed(),
+      decimals: fill.outputDecimals,
+    }));
+  });
+  notifyLedgerUpdated();
+};
+
+export const resetPaperLedger = async (): Promise<void> => {
+  await withStore(PAPER_BALANCES_STORE, "readwrite", async (store) => {
+    await requestToPromise(store.clear());
+    await Promise.all(initialBalances().map((balance) => requestToPromise(store.put(balance))));
+  });
+  notifyLedgerUpdated();
+};
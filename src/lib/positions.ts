@@ -0,0 +1,111 @@
+import Decimal from "decimal.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { TradeRecord } from "@/lib/trade-history";
+
+export interface Position {
+  tokenAddress: string;
+  tokenSymbol: string;
+  // Human-readable token quantity still held from our own fills
+  quantity: number;
+  // Remaining cost basis of that quantity; null when a fill had no price to value it with
+  costBasisSol: number | null;
+  costBasisUsd: number | null;
+  averageEntrySol: number | null;
+  averageEntryUsd: number | null;
+  realizedPnlSol: number | null;
+  realizedPnlUsd: number | null;
+  tradeCount: number;
+}
+
+export interface PositionMarks {
+  tokenPriceUsd: number | null;
+  solPriceUsd: number | null;
+}
+
+const SOL_MINT = NATIVE_MINT.toBase58();
+
+const toHuman = (atomic: string, decimals: number) => new Decimal(atomic).div(10 ** decimals).toNumber();
+
+// Values the quote leg of a fill in SOL and USD using the prices stored with the fill
+const valueQuoteLeg = (amount: number, mint: string, trade: TradeRecord) => {
+  const quotePriceUsd = trade.quotePriceUsd ?? null;
+  const solPriceUsd = trade.solPriceUsd ?? null;
+  const usd = quotePriceUsd !== null ? amount * quotePriceUsd : null;
+  let sol: number | null;
+  if (mint === SOL_MINT) {
+    sol = amount;
+  } else {
+    sol = usd !== null && solPriceUsd ? usd / solPriceUsd : null;
+  }
+  return { sol, usd };
+};
+
+const addOrNull = (a: number | null, b: number | null) => (a === null || b === null ? null : a + b);
+
+/**
+ * Builds the position in one token from our successful fills using average-cost accounting:
+ * buys add to the cost basis, sells realize PnL against the average entry and reduce it pro rata.
+ */
+export const buildPosition = (trades: TradeRecord[], tokenAddress: string): Position => {
+  const fills = trades
+    .filter((trade) => trade.tokenAddress === tokenAddress && trade.status === "success")
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let quantity = 0;
+  let costBasisSol: number | null = 0;
+  let costBasisUsd: number | null = 0;
+  let realizedPnlSol: number | null = 0;
+  let realizedPnlUsd: number | null = 0;
+
+  for (const trade of fills) {
+    const inputAmount = toHuman(trade.actualInputAmount ?? trade.quotedInputAmount, trade.inputDecimals);
+    const outputAmount = toHuman(trade.actualOutputAmount ?? trade.quotedOutputAmount, trade.outputDecimals);
+
+    if (trade.direction === "buy") {
+      const paid = valueQuoteLeg(inputAmount, trade.inputMint, trade);
+      quantity += outputAmount;
+      costBasisSol = addOrNull(costBasisSol, paid.sol);
+      costBasisUsd = addOrNull(costBasisUsd, paid.usd);
+      continue;
+    }
+
+    const received = valueQuoteLeg(outputAmount, trade.outputMint, trade);
+    // Tokens acquired outside this app have no recorded cost, only sell what we can account for
+    const soldQuantity = Math.min(inputAmount, quantity);
+    const soldShare = quantity > 0 ? soldQuantity / quantity : 0;
+    const accountedShare = inputAmount > 0 ? soldQuantity / inputAmount : 0;
+
+    const releasedSol = costBasisSol !== null ? costBasisSol * soldShare : null;
+    const releasedUsd = costBasisUsd !== null ? costBasisUsd * soldShare : null;
+
+    realizedPnlSol = addOrNull(realizedPnlSol, received.sol !== null && releasedSol !== null ? received.sol * accountedShare - releasedSol : null);
+    realizedPnlUsd = addOrNull(realizedPnlUsd, received.usd !== null && releasedUsd !== null ? received.usd * accountedShare - releasedUsd : null);
+    costBasisSol = costBasisSol !== null && releasedSol !== null ? costBasisSol - releasedSol : null;
+    costBasisUsd = costBasisUsd !== null && releasedUsd !== null ? costBasisUsd - releasedUsd : null;
+    quantity -= soldQuantity;
+  }
+
+  return {
+    tokenAddress,
+    tokenSymbol: fills[fills.length - 1]?.tokenSymbol ?? "",
+    quantity,
+    costBasisSol,
+    costBasisUsd,
+    averageEntrySol: costBasisSol !== null && quantity > 0 ? costBasisSol / quantity : null,
+    averageEntryUsd: costBasisUsd !== null && quantity > 0 ? costBasisUsd / quantity : null,
+    realizedPnlSol,
+    realizedPnlUsd,
+    tradeCount: fills.length,
+  };
+};
+
+export const getUnrealizedPnl = (position: Position, marks: PositionMarks) => {
+  const marketValueUsd = marks.tokenPriceUsd !== null ? position.quantity * marks.tokenPriceUsd : null;
+  const marketValueSol = marketValueUsd !== null && marks.solPriceUsd ? marketValueUsd / marks.solPriceUsd : null;
+  return {
+    marketValueUsd,
+    marketValueSol,
+    unrealizedPnlUsd: marketValueUsd !== null && position.costBasisUsd !== null ? marketValueUsd - position.costBasisUsd : null,
+    unrealizedPnlSol: marketValueSol !== null && position.costBasisSol !== null ? marketValueSol - position.costBasisSol : null,
+  };
+};
@@ -0,0 +1,67 @@
+import { getCodexClient } from "@/lib/codex";
+
+// Trades are only executed on Solana mainnet
+const SOLANA_NETWORK_ID = 101;
+
+// Latest USD prices from Codex, keyed by mint. Mints Codex has no price for are left out.
+export const getTokenPricesUsd = async (mints: string[]): Promise<Record<string, number>> => {
+  const uniqueMints = [...new Set(mints)];
+  if (uniqueMints.length === 0) {
+    return {};
+  }
+
+  const codexClient = getCodexClient();
+  const result = await codexClient.queries.getTokenPrices({
+    inputs: uniqueMints.map((address) => ({ address, networkId: SOLANA_NETWORK_ID })),
+  });
+
+  const prices: Record<string, number> = {};
+  result.getTokenPrices?.forEach((price) => {
+    if (price && Number.isFinite(price.priceUsd)) {
+      prices[price.address] = price.priceUsd;
+    }
+  });
+  return prices;
+};
+
+export interface TokenMarketData {
+  symbol: string | null;
+  name: string | null;
+  imageUrl: string | null;
+  priceUsd: number | null;
+  // Fractional 24h price change, e.g. 0.05 for +5%
+  change24: number | null;
+}
+
+const FILTER_TOKENS_BATCH_SIZE = 100;
+
+// Metadata, price and 24h change for many mints, batched through filterTokens
+export const getTokenMarketData = async (mints: string[]): Promise<Record<string, TokenMarketData>> => {
+  const uniqueMints = [...new Set(mints)];
+  const codexClient = getCodexClient();
+  const marketData: Record<string, TokenMarketData> = {};
+
+  for (let i = 0; i < uniqueMints.length; i += FILTER_TOKENS_BATCH_SIZE) {
+    const batch = uniqueMints.slice(i, i + FILTER_TOKENS_BATCH_SIZE);
+    const result = await codexClient.queries.filterTokens({
+      tokens: batch.map((address) => `${address}:${SOLANA_NETWORK_ID}`),
+      limit: batch.length,
+    });
+
+    result.filterTokens?.results?.forEach((item) => {
+      const address = item?.token?.address;
+      if (!item || !address) {
+        return;
+      }
+      marketData[address] = {
+        symbol: item.token?.symbol ?? null,
+        name: item.token?.name ?? null,
+        imageUrl: item.token?.info?.imageThumbUrl ?? null,
+        priceUsd: item.priceUSD ? parseFloat(item.priceUSD) : null,
+        change24: item.change24 ? parseFloat(item.change24) : null,
+      };
+    });
+  }
+
+  return marketData;
+};
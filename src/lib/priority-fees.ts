@@ -0,0 +1,245 @@
+import { ComputeBudgetProgram, Connection, VersionedTransaction } from "@solana/web3.js";
+
+// "jupiter" keeps the fee Jupiter quoted, so the order is still sent through Ultra
+export type PriorityFeePreset = "jupiter" | "normal" | "fast" | "turbo" | "custom";
+
+export interface PriorityFeeSetting {
+  preset: PriorityFeePreset;
+  // Compute unit price for the custom preset, in micro-lamports per CU
+  customMicroLamports: number;
+  // Overrides the compute unit limit Jupiter requested; null keeps it
+  computeUnitLimit: number | null;
+}
+
+// Compute unit prices in micro-lamports per CU, one per percentile preset
+export type PriorityFeeEstimate = Record<Exclude<PriorityFeePreset, "jupiter" | "custom">, number>;
+
+// The fee the transaction will pay, whether it carries the preset or the fee Jupiter quoted
+export interface PriorityFeeQuote {
+  preset: PriorityFeePreset;
+  estimate: PriorityFeeEstimate | null;
+  microLamports: number;
+  computeUnitLimit: number;
+  // Priority fee plus the base fee for each signature
+  totalFeeLamports: number;
+  // Whether our price and limit made it into the transaction, and why not otherwise
+  applied: boolean;
+  reason: string | null;
+}
+
+export const PRIORITY_FEE_CHANGED_EVENT = "priority-fee-changed";
+
+export const PRIORITY_FEE_PRESET_LABELS: Record<PriorityFeePreset, string> = {
+  jupiter: "Jupiter",
+  normal: "Normal",
+  fast: "Fast",
+  turbo: "Turbo",
+  custom: "Custom",
+};
+
+const PRIORITY_FEE_STORAGE_KEY = "priority-fee";
+
+// Percentile of recent fees paid on the swap's writable accounts that each preset bids
+const PRESET_PERCENTILES: Record<keyof PriorityFeeEstimate, number> = {
+  normal: 50,
+  fast: 75,
+  turbo: 95,
+};
+
+const LAMPORTS_PER_SIGNATURE = 5_000;
+// Runtime defaults when a transaction sets no compute unit limit
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+const COMPUTE_BUDGET_PROGRAM_ID = ComputeBudgetProgram.programId.toBase58();
+// Instruction discriminators of the Compute Budget program
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+
+const DEFAULT_PRIORITY_FEE: PriorityFeeSetting = { preset: "jupiter", customMicroLamports: 100_000, computeUnitLimit: null };
+
+export const loadPriorityFeeSetting = (): PriorityFeeSetting => {
+  try {
+    const stored = localStorage.getItem(PRIORITY_FEE_STORAGE_KEY);
+    if (!stored) {
+      return DEFAULT_PRIORITY_FEE;
+    }
+    const parsed = JSON.parse(stored) as Partial<PriorityFeeSetting>;
+    return {
+      preset: parsed.preset && parsed.preset in PRIORITY_FEE_PRESET_LABELS ? parsed.preset : DEFAULT_PRIORITY_FEE.preset,
+      customMicroLamports: Number.isFinite(parsed.customMicroLamports) && parsed.customMicroLamports! >= 0
+        ? parsed.customMicroLamports!
+        : DEFAULT_PRIORITY_FEE.customMicroLamports,
+      computeUnitLimit: Number.isInteger(parsed.computeUnitLimit) && parsed.computeUnitLimit! > 0
+        ? Math.min(parsed.computeUnitLimit!, MAX_COMPUTE_UNIT_LIMIT)
+        : null,
+    };
+  } catch (error) {
+    console.warn("[priorityFees] Failed to read stored setting:", error);
+    return DEFAULT_PRIORITY_FEE;
+  }
+};
+
+export const savePriorityFeeSetting = (setting: PriorityFeeSetting) => {
+  localStorage.setItem(PRIORITY_FEE_STORAGE_KEY, JSON.stringify(setting));
+  window.dispatchEvent(new Event(PRIORITY_FEE_CHANGED_EVENT));
+};
+
+const percentile = (sorted: number[], pct: number) => {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((pct / 100) * sorted.length))];
+};
+
+// Fees paid in recent slots by transactions that wrote to the same accounts as this swap
+export const estimatePriorityFees = async (
+  transaction: VersionedTransaction,
+  connection: Connection,
+): Promise<PriorityFeeEstimate> => {
+  const { message } = transaction;
+  // Accounts loaded through lookup tables are not resolved here; the static ones include the pools' hot accounts
+  const lockedWritableAccounts = message.staticAccountKeys.filter((_, index) => message.isAccountWritable(index));
+  const fees = await connection.getRecentPrioritizationFees({ lockedWritableAccounts });
+  const sorted = fees.map((fee) => fee.prioritizationFee).sort((a, b) => a - b);
+  return {
+    normal: percentile(sorted, PRESET_PERCENTILES.normal),
+    fast: percentile(sorted, PRESET_PERCENTILES.fast),
+    turbo: percentile(sorted, PRESET_PERCENTILES.turbo),
+  };
+};
+
+const findComputeBudgetInstruction = (transaction: VersionedTransaction, discriminator: number) => {
+  const { message } = transaction;
+  return message.compiledInstructions.findIndex(
+    (instruction) =>
+      message.staticAccountKeys[instruction.programIdIndex]?.toBase58() === COMPUTE_BUDGET_PROGRAM_ID &&
+      instruction.data[0] === discriminator,
+  );
+};
+
+export const readComputeBudget = (transaction: VersionedTransaction) => {
+  const { message } = transaction;
+  const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  const limitIndex = findComputeBudgetInstruction(transaction, SET_COMPUTE_UNIT_LIMIT);
+  const priceIndex = findComputeBudgetInstruction(transaction, SET_COMPUTE_UNIT_PRICE);
+  const otherInstructions = message.compiledInstructions.filter(
+    (instruction) => message.staticAccountKeys[instruction.programIdIndex]?.toBase58() !== COMPUTE_BUDGET_PROGRAM_ID,
+  ).length;
+
+  return {
+    computeUnitLimit: limitIndex >= 0
+      ? view(message.compiledInstructions[limitIndex].data).getUint32(1, true)
+      : Math.min(otherInstructions * DEFAULT_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNIT_LIMIT),
+    microLamports: priceIndex >= 0
+      ? Number(view(message.compiledInstructions[priceIndex].data).getBigUint64(1, true))
+      : 0,
+  };
+};
+
+export const getPriorityFeeLamports = (computeUnitLimit: number, microLamports: number) => {
+  return Math.ceil((computeUnitLimit * microLamports) / 1_000_000);
+};
+
+export const getTotalFeeLamports = (transaction: VersionedTransaction, computeUnitLimit: number, microLamports: number) => {
+  return transaction.message.header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE + getPriorityFeeLamports(computeUnitLimit, microLamports);
+};
+
+/**
+ * Rewrites the compute budget instructions already in the transaction. Only their data changes,
+ * so the account list and any lookup tables stay valid; transactions without them are left alone.
+ */
+export const applyComputeBudget = (
+  transaction: VersionedTransaction,
+  budget: { microLamports: number; computeUnitLimit: number | null },
+): VersionedTransaction | null => {
+  // Legacy messages serialize from their decoded instructions, so only v0 data can be patched
+  if (transaction.version !== 0) {
+    return null;
+  }
+  const copy = VersionedTransaction.deserialize(transaction.serialize());
+  const priceIndex = findComputeBudgetInstruction(copy, SET_COMPUTE_UNIT_PRICE);
+  const limitIndex = findComputeBudgetInstruction(copy, SET_COMPUTE_UNIT_LIMIT);
+  if (priceIndex < 0 || (budget.computeUnitLimit !== null && limitIndex < 0)) {
+    return null;
+  }
+
+  const priceData = new Uint8Array(9);
+  priceData[0] = SET_COMPUTE_UNIT_PRICE;
+  new DataView(priceData.buffer).setBigUint64(1, BigInt(Math.round(budget.microLamports)), true);
+  copy.message.compiledInstructions[priceIndex].data = priceData;
+
+  if (budget.computeUnitLimit !== null) {
+    const limitData = new Uint8Array(5);
+    limitData[0] = SET_COMPUTE_UNIT_LIMIT;
+    new DataView(limitData.buffer).setUint32(1, budget.computeUnitLimit, true);
+    copy.message.compiledInstructions[limitIndex].data = limitData;
+  }
+  return copy;
+};
+
+export const resolveMicroLamports = (setting: PriorityFeeSetting, estimate: PriorityFeeEstimate | null) => {
+  if (setting.preset === "jupiter") return null;
+  if (setting.preset === "custom") return setting.customMicroLamports;
+  return estimate ? estimate[setting.preset] : null;
+};
+
+/**
+ * Prices the transaction with the stored fee setting. lockedReason explains why the order cannot be
+ * changed, in which case the fee it came with is only reported.
+ */
+export const preparePriorityFee = async (
+  transaction: VersionedTransaction,
+  connection: Connection,
+  lockedReason: string | null,
+): Promise<{ transaction: VersionedTransaction; priorityFee: PriorityFeeQuote }> => {
+  const setting = loadPriorityFeeSetting();
+  if (setting.preset === "jupiter") {
+    const budget = readComputeBudget(transaction);
+    return {
+      transaction,
+      priorityFee: {
+        preset: setting.preset,
+        estimate: null,
+        microLamports: budget.microLamports,
+        computeUnitLimit: budget.computeUnitLimit,
+        totalFeeLamports: getTotalFeeLamports(transaction, budget.computeUnitLimit, budget.microLamports),
+        applied: false,
+        reason: null,
+      },
+    };
+  }
+
+  const estimate = await estimatePriorityFees(transaction, connection).catch((error) => {
+    console.warn("[priorityFees] Failed to estimate fees:", error);
+    return null;
+  });
+  const resolved = resolveMicroLamports(setting, estimate);
+  // Never bid below the price Jupiter quoted; accounts with no recent fees estimate 0
+  const microLamports = resolved === null ? null : Math.max(resolved, readComputeBudget(transaction).microLamports);
+
+  let adjusted: VersionedTransaction | null = null;
+  let reason = lockedReason;
+  if (!reason && microLamports === null) {
+    reason = "No fee estimate available, Jupiter's fee is kept";
+  } else if (!reason && microLamports !== null) {
+    adjusted = applyComputeBudget(transaction, { microLamports, computeUnitLimit: setting.computeUnitLimit });
+    if (!adjusted) {
+      reason = "The order has no compute budget to adjust, Jupiter's fee is kept";
+    }
+  }
+
+  const final = adjusted ?? transaction;
+  const budget = readComputeBudget(final);
+  return {
+    transaction: final,
+    priorityFee: {
+      preset: setting.preset,
+      estimate,
+      microLamports: budget.microLamports,
+      computeUnitLimit: budget.computeUnitLimit,
+      totalFeeLamports: getTotalFeeLamports(final, budget.computeUnitLimit, budget.microLamports),
+      applied: adjusted !== null,
+      reason,
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import { NATIVE_MINT } from "@solana/spl-token";
+
+export interface QuoteAsset {
+  mint: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const SOL_QUOTE_ASSET: QuoteAsset = {
+  mint: NATIVE_MINT.toBase58(),
+  symbol: "SOL",
+  decimals: 9,
+};
+
+export const USDC_QUOTE_ASSET: QuoteAsset = {
+  mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  symbol: "USDC",
+  decimals: 6,
+};
+
+export const USDT_QUOTE_ASSET: QuoteAsset = {
+  mint: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+  symbol: "USDT",
+  decimals: 6,
+};
+
+export const DEFAULT_QUOTE_ASSETS: QuoteAsset[] = [SOL_QUOTE_ASSET, USDC_QUOTE_ASSET, USDT_QUOTE_ASSET];
+
+export const isNativeQuoteAsset = (asset: QuoteAsset) => asset.mint === SOL_QUOTE_ASSET.mint;
@@ -0,0 +1,162 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { createBurnInstruction, createCloseAccountInstruction, NATIVE_MINT } from "@solana/spl-token";
+import Decimal from "decimal.js";
+import { getTokenAccounts, signTransaction, simulateTransaction, TokenAccountBalance } from "@/lib/solana";
+import { ConfirmationResult, trackConfirmation } from "@/lib/confirmation";
+import { getTokenMarketData } from "@/lib/prices";
+import { TransactionSigner } from "@/lib/signer";
+
+export type ReclaimKind = "empty" | "wsol" | "dust";
+
+export interface ReclaimCandidate {
+  account: TokenAccountBalance;
+  kind: ReclaimKind;
+  symbol: string | null;
+  // Lamports returned to the wallet once the account is closed
+  recoverableLamports: number;
+  valueUsd: number | null;
+}
+
+export interface ReclaimBatchResult {
+  accounts: string[];
+  result: ConfirmationResult | null;
+  error: string | null;
+}
+
+// Burn plus close is two instructions per dust account, so this keeps every batch well under the size limit
+const ACCOUNTS_PER_TRANSACTION = 8;
+
+// Empty and wrapped SOL accounts are always listed; accounts worth less than dustThresholdUsd are listed as dust
+export const findReclaimableAccounts = async (
+  owner: string,
+  connection: Connection,
+  dustThresholdUsd: number,
+): Promise<ReclaimCandidate[]> => {
+  const accounts = (await getTokenAccounts(owner, connection)).filter((account) => !account.frozen);
+
+  const pricedMints = [...new Set(
+    accounts
+      .filter((account) => account.amount.gt(0) && account.mint !== NATIVE_MINT.toBase58())
+      .map((account) => account.mint)
+  )];
+  const marketData = pricedMints.length > 0 ? await getTokenMarketData(pricedMints) : {};
+
+  const candidates: ReclaimCandidate[] = [];
+  accounts.forEach((account) => {
+    if (account.mint === NATIVE_MINT.toBase58()) {
+      // Closing a native account unwraps everything it holds, rent included
+      candidates.push({ account, kind: "wsol", symbol: "wSOL", recoverableLamports: account.lamports, valueUsd: null });
+      return;
+    }
+
+    const data = marketData[account.mint];
+    if (account.amount.isZero()) {
+      candidates.push({
+        account,
+        kind: "empty",
+        symbol: data?.symbol ?? null,
+        recoverableLamports: account.lamports,
+        valueUsd: 0,
+      });
+      return;
+    }
+
+    // Unpriced tokens are never treated as dust, they may still be worth something
+    if (!data?.priceUsd) return;
+    const valueUsd = account.amount.div(10 ** account.decimals).toNumber() * data.priceUsd;
+    if (valueUsd < dustThresholdUsd) {
+      candidates.push({ account, kind: "dust", symbol: data.symbol, recoverableLamports: account.lamports, valueUsd });
+    }
+  });
+
+  return candidates;
+};
+
+const buildInstructions = (candidate: ReclaimCandidate, owner: PublicKey): TransactionInstruction[] => {
+  const { account } = candidate;
+  const address = new PublicKey(account.address);
+  const programId = new PublicKey(account.programId);
+  const instructions: TransactionInstruction[] = [];
+
+  // Non-native accounts can only be closed once their balance is gone
+  if (candidate.kind === "dust") {
+    instructions.push(
+      createBurnInstruction(address, new PublicKey(account.mint), owner, BigInt(account.amount.toFixed()), [], programId)
+    );
+  }
+  instructions.push(createCloseAccountInstruction(address, owner, owner, [], programId));
+  return instructions;
+};
+
+// Fetches its own blockhash, so a batch built just before it is signed cannot expire behind earlier ones
+export const buildReclaimTransaction = async (
+  batch: ReclaimCandidate[],
+  owner: PublicKey,
+  connection: Connection,
+): Promise<VersionedTransaction> => {
+  const { blockhash } = await connection.getLatestBlockhash();
+  const message = new TransactionMessage({
+    payerKey: owner,
+    recentBlockhash: blockhash,
+    instructions: batch.flatMap((candidate) => buildInstructions(candidate, owner)),
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+};
+
+// Batches are sent one after another so a failing account only holds back its own batch
+export const reclaimAccounts = async (
+  candidates: ReclaimCandidate[],
+  signer: TransactionSigner,
+  connection: Connection,
+  onBatch?: (index: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<ReclaimBatchResult[]> => {
+  const batches: ReclaimCandidate[][] = [];
+  for (let i = 0; i < candidates.length; i += ACCOUNTS_PER_TRANSACTION) {
+    batches.push(candidates.slice(i, i + ACCOUNTS_PER_TRANSACTION));
+  }
+  const results: ReclaimBatchResult[] = [];
+
+  for (const [index, batch] of batches.entries()) {
+    if (signal?.aborted) break;
+    onBatch?.(index, batches.length);
+    const accounts = batch.map((candidate) => candidate.account.address);
+
+    try {
+      // Each batch waits on a wallet prompt and the previous confirmation, so it is built only now
+      const transaction = await buildReclaimTransaction(batch, signer.publicKey, connection);
+      const simulation = await simulateTransaction(transaction, connection);
+      if (!simulation.success) {
+        results.push({ accounts, result: null, error: simulation.reason ?? "Simulation failed" });
+        continue;
+      }
+
+      const result = await trackConfirmation({
+        transaction: await signTransaction(signer, transaction),
+        connection,
+        signal,
+      });
+      results.push({
+        accounts,
+        result,
+        error: result.status === "failed" || result.status === "unknown"
+          ? result.reason
+          : result.status === "expired" ? "Transaction expired" : null,
+      });
+    } catch (error) {
+      results.push({ accounts, result: null, error: (error as Error).message });
+    }
+  }
+
+  return results;
+};
+
+export const sumRecoverableLamports = (candidates: ReclaimCandidate[]) => {
+  return candidates.reduce((sum, candidate) => sum.add(candidate.recoverableLamports), new Decimal(0));
+};
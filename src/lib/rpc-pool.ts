@@ -0,0 +1,252 @@
+import { Connection, FetchFn } from "@solana/web3.js";
+
+export interface EndpointHealth {
+  url: string;
+  latencyMs: number | null;
+  slot: number | null;
+  // Slots behind the most advanced endpoint in the last probe
+  slotLag: number | null;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError: string | null;
+  checkedAt: number | null;
+  // Rate-limited or failing endpoints are skipped until then
+  cooldownUntil: number;
+}
+
+export const RPC_HEALTH_UPDATED_EVENT = "rpc-health-updated";
+
+const PROBE_INTERVAL_MS = 15_000;
+const PROBE_TIMEOUT_MS = 5_000;
+// An endpoint this far behind the tip serves stale balances and blockhashes
+const MAX_HEALTHY_SLOT_LAG = 20;
+// Each slot of lag costs as much as this much extra latency when ranking
+const SLOT_LAG_PENALTY_MS = 50;
+const RATE_LIMIT_COOLDOWN_MS = 30_000;
+const FAILURE_COOLDOWN_MS = 10_000;
+// Sends go to this many of the best endpoints at once
+const BROADCAST_FANOUT = 3;
+
+const health = new Map<string, EndpointHealth>();
+let probedUrls: string[] = [];
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+
+const notifyHealthUpdated = () => window.dispatchEvent(new Event(RPC_HEALTH_UPDATED_EVENT));
+
+const getHealth = (url: string): EndpointHealth => {
+  let entry = health.get(url);
+  if (!entry) {
+    entry = {
+      url,
+      latencyMs: null,
+      slot: null,
+      slotLag: null,
+      healthy: true,
+      consecutiveFailures: 0,
+      lastError: null,
+      checkedAt: null,
+      cooldownUntil: 0,
+    };
+    health.set(url, entry);
+  }
+  return entry;
+};
+
+export const getEndpointHealth = (urls: string[]): EndpointHealth[] => urls.map(getHealth);
+
+const scoreEndpoint = (entry: EndpointHealth) => {
+  if (!entry.healthy || entry.cooldownUntil > Date.now()) {
+    return Infinity;
+  }
+  // Unprobed endpoints rank after probed ones but keep their configured order among themselves
+  if (entry.latencyMs === null) {
+    return Number.MAX_SAFE_INTEGER;
+  }
+  return entry.latencyMs + (entry.slotLag ?? 0) * SLOT_LAG_PENALTY_MS;
+};
+
+// Best first; endpoints that are down stay at the end so they are still tried as a last resort
+export const rankEndpoints = (urls: string[]): string[] => {
+  return urls
+    .map((url, index) => ({ url, index, score: scoreEndpoint(getHealth(url)) }))
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .map(({ url }) => url);
+};
+
+const reportSuccess = (url: string) => {
+  const entry = getHealth(url);
+  if (entry.consecutiveFailures > 0 || !entry.healthy) {
+    entry.consecutiveFailures = 0;
+    entry.healthy = true;
+    entry.lastError = null;
+    notifyHealthUpdated();
+  }
+};
+
+const reportFailure = (url: string, message: string, rateLimited = false) => {
+  const entry = getHealth(url);
+  entry.consecutiveFailures += 1;
+  entry.lastError = message;
+  entry.cooldownUntil = Date.now() + (rateLimited ? RATE_LIMIT_COOLDOWN_MS : FAILURE_COOLDOWN_MS * entry.consecutiveFailures);
+  notifyHealthUpdated();
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) => {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms)),
+  ]);
+};
+
+export const probeEndpoints = async (urls: string[]): Promise<EndpointHealth[]> => {
+  const results = await Promise.all(
+    urls.map(async (url) => {
+      const startedAt = performance.now();
+      try {
+        const slot = await withTimeout(new Connection(url).getSlot(), PROBE_TIMEOUT_MS);
+        return { url, slot, latencyMs: Math.round(performance.now() - startedAt), error: null };
+      } catch (error) {
+        return { url, slot: null, latencyMs: null, error: (error as Error).message };
+      }
+    }),
+  );
+
+  const tip = Math.max(...results.map(({ slot }) => slot ?? 0));
+  results.forEach(({ url, slot, latencyMs, error }) => {
+    const entry = getHealth(url);
+    entry.checkedAt = Date.now();
+    entry.latencyMs = latencyMs;
+    entry.slot = slot;
+    entry.slotLag = slot !== null ? tip - slot : null;
+    entry.healthy = slot !== null && entry.slotLag! <= MAX_HEALTHY_SLOT_LAG;
+    entry.lastError = error ?? (entry.healthy ? null : `${entry.slotLag} slots behind`);
+    entry.consecutiveFailures = slot !== null ? 0 : entry.consecutiveFailures + 1;
+  });
+  notifyHealthUpdated();
+  return getEndpointHealth(urls);
+};
+
+// Keeps probing whichever pool was used last, so reads are routed on fresh data
+const ensureProbing = (urls: string[]) => {
+  if (urls.join(",") === probedUrls.join(",") && probeTimer) {
+    return;
+  }
+  probedUrls = urls;
+  if (probeTimer) {
+    clearInterval(probeTimer);
+  }
+  probeEndpoints(urls).catch((error) => console.warn("[rpcPool] Probe failed:", error));
+  probeTimer = setInterval(() => {
+    probeEndpoints(probedUrls).catch((error) => console.warn("[rpcPool] Probe failed:", error));
+  }, PROBE_INTERVAL_MS);
+};
+
+const getRpcMethod = (body: BodyInit | null | undefined) => {
+  if (typeof body !== "string") return null;
+  try {
+    return (JSON.parse(body) as { method?: string }).method ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Copies a response so it can be both inspected here and returned to web3.js
+const readResponse = async (response: Response) => {
+  const text = await response.text();
+  return {
+    text,
+    response: new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers }),
+  };
+};
+
+const hasRpcError = (text: string) => {
+  try {
+    return "error" in (JSON.parse(text) as object);
+  } catch {
+    return true;
+  }
+};
+
+const createPoolFetch = (urls: string[]): FetchFn => {
+  const sendTo = async (url: string, init?: RequestInit) => {
+    try {
+      const response = await fetch(url, init);
+      if (response.status === 429) {
+        reportFailure(url, "Rate limited (429)", true);
+      } else if (response.status >= 500) {
+        reportFailure(url, `HTTP ${response.status}`);
+      } else {
+        reportSuccess(url);
+      }
+      return response;
+    } catch (error) {
+      reportFailure(url, (error as Error).message);
+      throw error;
+    }
+  };
+
+  const failover = async (init?: RequestInit) => {
+    let lastResponse: Response | null = null;
+    let lastError: unknown = null;
+    for (const url of rankEndpoints(urls)) {
+      try {
+        const response = await sendTo(url, init);
+        if (response.status !== 429 && response.status < 500) {
+          return response;
+        }
+        lastResponse = response;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    if (lastResponse) return lastResponse;
+    throw lastError ?? new Error("No RPC endpoint configured");
+  };
+
+  // The first endpoint to accept the transaction wins; if none does, the best endpoint's answer is returned
+  const broadcast = async (init?: RequestInit) => {
+    const targets = rankEndpoints(urls).slice(0, BROADCAST_FANOUT);
+    const attempts = targets.map(async (url) => readResponse(await sendTo(url, init)));
+
+    const accepted = await new Promise<Response | null>((resolve) => {
+      let pending = attempts.length;
+      attempts.forEach((attempt) => {
+        attempt
+          .then(({ response, text }) => {
+            if (response.ok && !hasRpcError(text)) resolve(response);
+          })
+          .catch(() => undefined)
+          .finally(() => {
+            pending -= 1;
+            if (pending === 0) resolve(null);
+          });
+      });
+    });
+    if (accepted) return accepted;
+
+    const settled = await Promise.allSettled(attempts);
+    const first = settled.find((result) => result.status === "fulfilled");
+    if (first?.status === "fulfilled") return first.value.response;
+    return failover(init);
+  };
+
+  return async (_input, init) => {
+    return getRpcMethod(init?.body) === "sendTransaction" ? broadcast(init) : failover(init);
+  };
+};
+
+// A Connection whose HTTP requests are routed to the healthiest endpoint of the pool
+export const createPooledConnection = (urls: string[]): Connection => {
+  const endpoints = [...new Set(urls.filter(Boolean))];
+  if (endpoints.length === 0) {
+    throw new Error("No RPC endpoint configured");
+  }
+  ensureProbing(endpoints);
+  return new Connection(rankEndpoints(endpoints)[0], {
+    fetch: createPoolFetch(endpoints),
+    // Reads must see a trade as soon as it confirms; at the RPC default of finalized they lag it by ~13s
+    commitment: "confirmed",
+    // Failover handles 429s by moving to the next endpoint instead of waiting on the same one
+    disableRetryOnRateLimit: true,
+  });
+};
@@ -0,0 +1,19 @@
+import { Keypair, PublicKey, VersionedTransaction } from "@solana/web3.js";
+
+// Anything that can sign for the wallet the app is trading with: a keystore keypair or a browser wallet
+export interface TransactionSigner {
+  kind: "keypair" | "browser";
+  label: string;
+  publicKey: PublicKey;
+  signTransaction: (transaction: VersionedTransaction) => Promise<VersionedTransaction>;
+}
+
+export const createKeypairSigner = (keypair: Keypair, label: string): TransactionSigner => ({
+  kind: "keypair",
+  label,
+  publicKey: keypair.publicKey,
+  signTransaction: async (transaction) => {
+    transaction.sign([keypair]);
+    return transaction;
+  },
+});
@@ -0,0 +1,105 @@
+import { TransactionError } from "@solana/web3.js";
+
+export interface SimulationResult {
+  success: boolean;
+  logs: string[];
+  unitsConsumed: number | null;
+  reason: string | null;
+}
+
+const KNOWN_PROGRAMS: Record<string, string> = {
+  "11111111111111111111111111111111": "System Program",
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: "Token Program",
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: "Token-2022 Program",
+  ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL: "Associated Token Program",
+  ComputeBudget111111111111111111111111111111: "Compute Budget Program",
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: "Jupiter Aggregator",
+};
+
+// Custom error codes of the programs every swap goes through
+const KNOWN_PROGRAM_ERRORS: Record<string, Record<number, string>> = {
+  "11111111111111111111111111111111": {
+    0: "Account already in use",
+    1: "Insufficient SOL for this transfer",
+  },
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: {
+    0: "Account is not rent exempt",
+    1: "Insufficient token funds",
+    3: "Token account mint mismatch",
+    4: "Token account owner mismatch",
+    17: "Token account is frozen",
+  },
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: {
+    0: "Account is not rent exempt",
+    1: "Insufficient token funds",
+    3: "Token account mint mismatch",
+    4: "Token account owner mismatch",
+    17: "Token account is frozen",
+  },
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: {
+    6001: "Slippage tolerance exceeded",
+  },
+};
+
+const TOP_LEVEL_ERRORS: Record<string, string> = {
+  AccountNotFound: "Account not found: the wallet has never been funded",
+  InsufficientFundsForFee: "Insufficient SOL to pay the transaction fee",
+  InsufficientFundsForRent: "Insufficient SOL to cover account rent",
+  BlockhashNotFound: "The quote's blockhash has expired, request a new quote",
+  AlreadyProcessed: "This transaction has already been processed",
+};
+
+const programName = (programId: string) => KNOWN_PROGRAMS[programId] ?? `program ${programId.slice(0, 4)}...${programId.slice(-4)}`;
+
+// The last "Program X failed" log line names the program that aborted the transaction
+const findFailedProgram = (logs: string[]) => {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const match = logs[i].match(/^Program (\w+) failed: (.*)$/);
+    if (match) {
+      return { programId: match[1], message: match[2] };
+    }
+  }
+  return null;
+};
+
+export const decodeSimulationError = (err: TransactionError, logs: string[]): string => {
+  if (typeof err === "string") {
+    return TOP_LEVEL_ERRORS[err] ?? err;
+  }
+
+  const failed = findFailedProgram(logs);
+
+  // Anchor programs log a readable message alongside the error number
+  const anchorMessage = logs
+    .map((log) => log.match(/Error Message: (.*?)\.?$/))
+    .find((match) => match !== null);
+
+  if (failed) {
+    const customCode = failed.message.match(/custom program error: (0x[0-9a-fA-F]+)/);
+    if (customCode) {
+      const code = parseInt(customCode[1], 16);
+      const known = KNOWN_PROGRAM_ERRORS[failed.programId]?.[code];
+      if (known) {
+        return `${known} (${programName(failed.programId)})`;
+      }
+      if (anchorMessage) {
+        return `${anchorMessage[1]} (${programName(failed.programId)})`;
+      }
+      return `${programName(failed.programId)} failed with error ${code}`;
+    }
+    if (/insufficient (lamports|funds)/i.test(logs.join("\n"))) {
+      return `Insufficient funds (${programName(failed.programId)})`;
+    }
+    if (/account (not found|not initialized)|could not find account|AccountNotInitialized/i.test(logs.join("\n"))) {
+      return `Account not found (${programName(failed.programId)})`;
+    }
+    return `${programName(failed.programId)} failed: ${failed.message}`;
+  }
+
+  if ("InstructionError" in err) {
+    const [index, detail] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    return `Instruction ${index} failed: ${typeof detail === "string" ? detail : JSON.stringify(detail)}`;
+  }
+
+  return JSON.stringify(err);
+};
@@ -1,22 +1,78 @@
-import { Connection, PublicKey, Keypair, VersionedTransaction } from "@solana/web3.js";
-import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { Connection, PublicKey, Keypair, TokenBalance, VersionedTransaction } from "@solana/web3.js";
+import {
+  getAssociatedTokenAddressSync,
+  getEpochFee,
+  getMint,
+  getTransferFeeConfig,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
 import Decimal from "decimal.js";
 import bs58 from "bs58";
+import { decodeSimulationError, SimulationResult } from "@/lib/simulation";
+import { TransactionSigner } from "@/lib/signer";
+import { ClusterSetting, getClusterRpcUrls } from "@/lib/cluster";
+import { createPooledConnection } from "@/lib/rpc-pool";
 
-export const createConnection = () => {
-  return new Connection(import.meta.env.VITE_HELIUS_RPC_URL);
+// Connections are created per operation, so a cluster switch applies to the next request.
+// Requests go to the healthiest endpoint of the cluster's pool and fail over between them.
+export const createConnection = (cluster?: ClusterSetting) => {
+  return createPooledConnection(getClusterRpcUrls(cluster));
+};
+
+// Mirrors how web3.js derives the websocket endpoint: local validators serve it on the port after the RPC port
+export const getWebSocketUrl = (rpcUrl: string) => {
+  const url = new URL(rpcUrl);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  if (url.port) {
+    url.port = String(Number(url.port) + 1);
+  }
+  return url.toString();
+};
+
+export const isWebSocketReachable = (url: string, timeoutMs = 5_000): Promise<boolean> => {
+  return new Promise((resolve) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      resolve(false);
+      return;
+    }
+    const timer = setTimeout(() => {
+      socket.close();
+      resolve(false);
+    }, timeoutMs);
+    socket.onopen = () => {
+      clearTimeout(timer);
+      socket.close();
+      resolve(true);
+    };
+    socket.onerror = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+  });
+};
+
+export const testRpcConnection = async (rpcUrl: string): Promise<{ version: string; slot: number; latencyMs: number }> => {
+  const connection = new Connection(rpcUrl);
+  const startedAt = performance.now();
+  const [version, slot] = await Promise.all([connection.getVersion(), connection.getSlot()]);
+  return { version: version["solana-core"], slot, latencyMs: Math.round(performance.now() - startedAt) };
 };
 
 export const createKeypair = (privateKey: string) => {
   if (!privateKey) {
-    throw new Error("Private key is required. Please set VITE_SOLANA_PRIVATE_KEY in your .env file.");
+    throw new Error("Private key is required.");
   }
 
   // Clean the private key: remove whitespace, newlines, quotes
   const cleanedKey = privateKey.trim().replace(/['"]/g, '').replace(/\s+/g, '');
 
   if (!cleanedKey) {
-    throw new Error("Private key is empty after cleaning. Please check your VITE_SOLANA_PRIVATE_KEY in .env file.");
+    throw new Error("Private key is empty after cleaning.");
   }
 
   // Try base58 decoding first (most common format)
@@ -80,9 +136,7 @@ export const createKeypair = (privateKey: string) => {
       `3. Hexadecimal string (128 hex characters = 64 bytes)\n` +
       `   Example: 0x7b2d3f4e... or 7b2d3f4e...\n\n` +
       `Original error: ${errorDetails}\n\n` +
-      `Your private key length: ${cleanedKey.length} characters\n` +
-      `First 20 characters: ${cleanedKey.substring(0, 20)}...\n\n` +
-      `Please check your VITE_SOLANA_PRIVATE_KEY in .env file.\n` +
+      `Your private key length: ${cleanedKey.length} characters\n\n` +
       `Make sure there are no extra spaces, quotes, or newlines.`
     );
   }
@@ -93,80 +147,223 @@ export const getSolanaBalance = async (publicKey: string, connection: Connection
   return new Decimal(balance);
 };
 
+// The owning program of a mint never changes, so lookups are cached for the session
+const mintProgramCache = new Map<string, PublicKey>();
+
+export const getMintProgramId = async (mint: PublicKey, connection: Connection): Promise<PublicKey> => {
+  const cached = mintProgramCache.get(mint.toBase58());
+  if (cached) {
+    return cached;
+  }
+
+  const accountInfo = await connection.getAccountInfo(mint);
+  if (!accountInfo) {
+    throw new Error(`Mint account not found: ${mint.toBase58()}`);
+  }
+
+  const programId = accountInfo.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+  mintProgramCache.set(mint.toBase58(), programId);
+  return programId;
+};
+
 export const getTokenBalance = async (
   publicKey: string,
   tokenAddress: string,
   connection: Connection,
 ): Promise<Decimal> => {
-  try {
-    // Validate addresses before creating PublicKey
-    if (!publicKey || !tokenAddress) {
-      console.warn("[getTokenBalance] Missing publicKey or tokenAddress");
-      return new Decimal(0);
-    }
+  // Validate addresses before creating PublicKey
+  if (!publicKey || !tokenAddress) {
+    console.warn("[getTokenBalance] Missing publicKey or tokenAddress");
+    return new Decimal(0);
+  }
 
-    // Validate address format (basic check)
-    const isValidBase58 = (str: string): boolean => {
-      const base58Regex = /^[1-9A-HJ-NP-Za-km-z]+$/;
-      return base58Regex.test(str) && str.length >= 32 && str.length <= 44;
-    };
+  // Validate address format (basic check)
+  const isValidBase58 = (str: string): boolean => {
+    const base58Regex = /^[1-9A-HJ-NP-Za-km-z]+$/;
+    return base58Regex.test(str) && str.length >= 32 && str.length <= 44;
+  };
 
-    if (!isValidBase58(publicKey)) {
-      console.error(`[getTokenBalance] Invalid publicKey format: ${publicKey.substring(0, 20)}...`);
-      return new Decimal(0);
-    }
+  if (!isValidBase58(publicKey)) {
+    console.error(`[getTokenBalance] Invalid publicKey format: ${publicKey.substring(0, 20)}...`);
+    return new Decimal(0);
+  }
 
-    if (!isValidBase58(tokenAddress)) {
-      console.error(`[getTokenBalance] Invalid tokenAddress format: ${tokenAddress.substring(0, 20)}...`);
-      return new Decimal(0);
-    }
+  if (!isValidBase58(tokenAddress)) {
+    console.error(`[getTokenBalance] Invalid tokenAddress format: ${tokenAddress.substring(0, 20)}...`);
+    return new Decimal(0);
+  }
 
-    const mint = new PublicKey(tokenAddress);
-    const owner = new PublicKey(publicKey);
+  const mint = new PublicKey(tokenAddress);
+  const owner = new PublicKey(publicKey);
 
-    // Get the associated token account address
-    // This is the standard way to get token account for a wallet and token mint
-    const tokenAccountPubkey = getAssociatedTokenAddressSync(
-      mint,
-      owner,
-      false, // allowOwnerOffCurve is false by default
-    );
+  // Filtering by mint finds accounts under either token program, and every account counts, not only the
+  // associated one. RPC errors are thrown so callers keep the last known balance instead of showing zero.
+  const response = await connection.getParsedTokenAccountsByOwner(owner, { mint });
+  return response.value.reduce(
+    (sum, { account }) => sum.add(account.data.parsed.info.tokenAmount.amount),
+    new Decimal(0),
+  );
+};
+
+// Every account whose changes move the wallet's balance of these mints: the associated account,
+// which can be watched before it exists, plus any other accounts already open for the mint
+export const getWatchedTokenAccounts = async (
+  publicKey: string,
+  mints: string[],
+  connection: Connection,
+): Promise<PublicKey[]> => {
+  const owner = new PublicKey(publicKey);
+  const addresses = new Set<string>();
 
-    console.log(`[getTokenBalance] Token account address: ${tokenAccountPubkey.toBase58()}`);
+  await Promise.all(
+    mints.map(async (mintAddress) => {
+      try {
+        const mint = new PublicKey(mintAddress);
+        const programId = await getMintProgramId(mint, connection);
+        addresses.add(getAssociatedTokenAddressSync(mint, owner, false, programId).toBase58());
+        const { value } = await connection.getTokenAccountsByOwner(owner, { mint });
+        value.forEach(({ pubkey }) => addresses.add(pubkey.toBase58()));
+      } catch (error) {
+        console.warn(`[getWatchedTokenAccounts] Skipping mint ${mintAddress}:`, error);
+      }
+    }),
+  );
 
-    try {
-      const response = await connection.getTokenAccountBalance(tokenAccountPubkey);
-      return new Decimal(response.value.amount);
-    } catch (error) {
-      // Token account might not exist if balance is 0
-      console.log(`[getTokenBalance] Token account not found or has zero balance`);
-      return new Decimal(0);
-    }
-  } catch (error) {
-    console.error(`[getTokenBalance] Error fetching Solana token balance:`, error);
-    if (error instanceof Error) {
-      console.error(`[getTokenBalance] Error details:`, error.message);
-    }
-    return new Decimal(0);
+  return [...addresses].map((address) => new PublicKey(address));
+};
+
+export interface TokenAccountBalance {
+  address: string;
+  programId: string;
+  mint: string;
+  amount: Decimal;
+  decimals: number;
+  // Lamports held by the account: its rent deposit, plus the wrapped SOL for native accounts
+  lamports: number;
+  frozen: boolean;
+}
+
+export const getTokenAccounts = async (
+  publicKey: string,
+  connection: Connection,
+): Promise<TokenAccountBalance[]> => {
+  const owner = new PublicKey(publicKey);
+  const responses = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+      connection.getParsedTokenAccountsByOwner(owner, { programId })
+    ),
+  );
+
+  return responses.flatMap((response) => response.value).map(({ pubkey, account }) => {
+    const info = account.data.parsed.info;
+    return {
+      address: pubkey.toBase58(),
+      programId: account.owner.toBase58(),
+      mint: info.mint as string,
+      amount: new Decimal(info.tokenAmount.amount),
+      decimals: info.tokenAmount.decimals as number,
+      lamports: account.lamports,
+      frozen: info.state === "frozen",
+    };
+  });
+};
+
+export interface TransferFeeInfo {
+  basisPoints: number;
+  // Atomic cap on the fee charged per transfer
+  maximumFee: Decimal;
+}
+
+// Current-epoch transfer fee of a Token-2022 mint, null for mints without the extension
+export const getTransferFee = async (mintAddress: string, connection: Connection): Promise<TransferFeeInfo | null> => {
+  const mintKey = new PublicKey(mintAddress);
+  const programId = await getMintProgramId(mintKey, connection);
+  if (!programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    return null;
   }
+
+  const mint = await getMint(connection, mintKey, "confirmed", TOKEN_2022_PROGRAM_ID);
+  const config = getTransferFeeConfig(mint);
+  if (!config) {
+    return null;
+  }
+
+  const { epoch } = await connection.getEpochInfo();
+  const fee = getEpochFee(config, BigInt(epoch));
+  return {
+    basisPoints: fee.transferFeeBasisPoints,
+    maximumFee: new Decimal(fee.maximumFee.toString()),
+  };
+};
+
+export const signTransaction = (signer: TransactionSigner, transaction: VersionedTransaction): Promise<VersionedTransaction> => {
+  return signer.signTransaction(transaction);
+};
+
+export const simulateTransaction = async (
+  transaction: VersionedTransaction,
+  connection: Connection,
+): Promise<SimulationResult> => {
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    commitment: "processed",
+  });
+  const logs = value.logs ?? [];
+
+  return {
+    success: value.err === null,
+    logs,
+    unitsConsumed: value.unitsConsumed ?? null,
+    reason: value.err === null ? null : decodeSimulationError(value.err, logs),
+  };
 };
 
-export const signTransaction = (keypair: Keypair, transaction: VersionedTransaction): VersionedTransaction => {
-  transaction.sign([keypair]);
-  return transaction;
+/**
+ * Net change the owner saw in each mint in a landed transaction, in atomic units. SOL also counts the
+ * owner's lamports, net of the fee and of rent moved into accounts the transaction created.
+ */
+export const getTransactionBalanceChanges = async (
+  signature: string,
+  owner: string,
+  mints: string[],
+  connection: Connection,
+): Promise<Record<string, Decimal>> => {
+  const landed = await connection.getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 });
+  if (!landed?.meta) {
+    throw new Error(`Transaction ${signature} not found`);
+  }
+  const { meta } = landed;
+
+  const sumTokenBalances = (balances: TokenBalance[] | null | undefined, mint: string) => {
+    return (balances ?? [])
+      .filter((balance) => balance.owner === owner && balance.mint === mint)
+      .reduce((sum, balance) => sum.add(balance.uiTokenAmount.amount), new Decimal(0));
+  };
+
+  const lamportChange = () => {
+    const accountKeys = landed.transaction.message.getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses });
+    let change = new Decimal(0);
+    for (let index = 0; index < accountKeys.length; index++) {
+      const pre = meta.preBalances[index];
+      const post = meta.postBalances[index];
+      if (accountKeys.get(index)?.toBase58() === owner) {
+        change = change.add(post - pre);
+      } else if (pre === 0 && post > 0) {
+        change = change.add(post);
+      }
+    }
+    return change.add(meta.fee);
+  };
+
+  return Object.fromEntries(
+    mints.map((mint) => {
+      const tokenChange = sumTokenBalances(meta.postTokenBalances, mint).sub(sumTokenBalances(meta.preTokenBalances, mint));
+      return [mint, mint === NATIVE_MINT.toBase58() ? tokenChange.add(lamportChange()) : tokenChange];
+    }),
+  );
 };
 
 export const sendTransaction = async (transaction: VersionedTransaction, connection: Connection) => {
   const signature = await connection.sendTransaction(transaction);
   return signature;
 };
-
-export const confirmTransaction = async (signature: string, connection: Connection) => {
-  const blockHash = await connection.getLatestBlockhash();
-  const confirmation = await connection.confirmTransaction({
-    signature,
-    blockhash: blockHash.blockhash,
-    lastValidBlockHeight: blockHash.lastValidBlockHeight,
-  }, "confirmed");
-  return confirmation;
-};
\ No newline at end of file
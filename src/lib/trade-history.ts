@@ -0,0 +1,64 @@
+import { PAPER_TRADES_STORE, requestToPromise, TRADES_STORE, withStore } from "@/lib/db";
+
+export type TradeStatus = "submitted" | "success" | "failed";
+
+export interface TradeRecord {
+  // Ultra requestId of the order
+  id: string;
+  // Wallet that signed the order, null for paper fills. Missing on records saved before multiple wallets.
+  walletAddress?: string | null;
+  tokenAddress: string;
+  tokenSymbol: string;
+  direction: "buy" | "sell";
+  inputMint: string;
+  inputSymbol: string;
+  inputDecimals: number;
+  outputMint: string;
+  outputSymbol: string;
+  outputDecimals: number;
+  // Atomic amounts, as strings to keep full precision
+  quotedInputAmount: string;
+  quotedOutputAmount: string;
+  actualInputAmount: string | null;
+  actualOutputAmount: string | null;
+  signature: string | null;
+  slot: string | null;
+  feeBps: number;
+  platformFeeAmount: string | null;
+  prioritizationFeeLamports: number;
+  status: TradeStatus;
+  error: string | null;
+  timestamp: number;
+  // USD prices at fill time, used to value the quote leg for cost basis. Missing on older records.
+  quotePriceUsd?: number | null;
+  solPriceUsd?: number | null;
+}
+
+export interface TradeOwner {
+  walletAddress: string | null;
+  // Records without a wallet predate multiple wallets and belong to the first one, which held the old single key
+  defaultWalletAddress: string | null;
+}
+
+export const TRADE_HISTORY_UPDATED_EVENT = "trade-history-updated";
+
+// Paper fills are kept in their own store so they can never mix with real positions
+const tradesStore = (paper: boolean) => (paper ? PAPER_TRADES_STORE : TRADES_STORE);
+
+export const saveTrade = async (record: TradeRecord, paper = false): Promise<void> => {
+  await withStore(tradesStore(paper), "readwrite", async (store) => {
+    await requestToPromise(store.put(record));
+  });
+  window.dispatchEvent(new Event(TRADE_HISTORY_UPDATED_EVENT));
+};
+
+// Paper fills share one virtual ledger across wallets, so only real fills are narrowed to the owner
+export const getTrades = async (paper = false, owner?: TradeOwner): Promise<TradeRecord[]> => {
+  const trades = await withStore(tradesStore(paper), "readonly", (store) => {
+    return requestToPromise(store.getAll() as IDBRequest<TradeRecord[]>);
+  });
+  const owned = paper || !owner
+    ? trades
+    : trades.filter((trade) => (trade.walletAddress ?? owner.defaultWalletAddress) === owner.walletAddress);
+  return owned.sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,68 @@
+import Decimal from "decimal.js";
+
+export interface TwapSettings {
+  slices: number;
+  windowMs: number;
+  // Each slice after the first moves by up to this percentage of the gap between slices, either way
+  jitterPct: number;
+  // A slice whose quote would move the price more than this is not sent, and the TWAP stops
+  maxPriceImpactPct: number;
+}
+
+export const DEFAULT_TWAP_SETTINGS: TwapSettings = {
+  slices: 5,
+  windowMs: 10 * 60_000,
+  jitterPct: 20,
+  maxPriceImpactPct: 2,
+};
+
+export const validateTwapSettings = (settings: TwapSettings): string | null => {
+  if (!Number.isInteger(settings.slices) || settings.slices < 2 || settings.slices > 100) {
+    return "Slices must be a whole number from 2 to 100";
+  }
+  if (!Number.isFinite(settings.windowMs) || settings.windowMs < 60_000) {
+    return "The window must be at least one minute";
+  }
+  if (!Number.isFinite(settings.jitterPct) || settings.jitterPct < 0 || settings.jitterPct > 50) {
+    return "Jitter must be between 0 and 50%";
+  }
+  if (!Number.isFinite(settings.maxPriceImpactPct) || settings.maxPriceImpactPct <= 0) {
+    return "The price impact limit must be above zero";
+  }
+  return null;
+};
+
+/**
+ * When each slice goes out, in ms from the start. Slices are spread evenly so the last one leaves
+ * a full gap before the window ends; jitter keeps the timing from being predictable to other traders.
+ */
+export const buildTwapOffsets = ({ slices, windowMs, jitterPct }: TwapSettings): number[] => {
+  const gap = windowMs / slices;
+  return Array.from({ length: slices }, (_, index) => {
+    if (index === 0) return 0;
+    const jitter = (Math.random() * 2 - 1) * (jitterPct / 100) * gap;
+    return Math.round(index * gap + jitter);
+  });
+};
+
+// Splits an atomic amount into whole-unit slices; the remainder goes to the last one
+export const splitAtomicAmount = (total: Decimal, slices: number): Decimal[] => {
+  const slice = total.div(slices).floor();
+  return Array.from({ length: slices }, (_, index) =>
+    index === slices - 1 ? total.minus(slice.mul(slices - 1)) : slice,
+  );
+};
+
+// Quote asset paid or received per token across all fills, weighted by size
+export const getTwapAveragePrice = (
+  fills: { inputAmount: Decimal; outputAmount: Decimal }[],
+  direction: "buy" | "sell",
+  tokenDecimals: number,
+  quoteDecimals: number,
+): number | null => {
+  const input = fills.reduce((sum, fill) => sum.plus(fill.inputAmount), new Decimal(0));
+  const output = fills.reduce((sum, fill) => sum.plus(fill.outputAmount), new Decimal(0));
+  const [quoteAtomic, tokenAtomic] = direction === "buy" ? [input, output] : [output, input];
+  if (tokenAtomic.isZero()) return null;
+  return quoteAtomic.div(10 ** quoteDecimals).div(tokenAtomic.div(10 ** tokenDecimals)).toNumber();
+};
@@ -2,6 +2,8 @@ import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import Decimal from "decimal.js";
 import BN from "bn.js";
+import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
+import { DEFAULT_QUOTE_ASSETS, QuoteAsset } from "@/lib/quote-assets";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -21,3 +23,25 @@ export function bn(value: Decimal | bigint): BN {
     throw new Error(`Invalid type of value: ${value}`);
   }
 }
+
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+// Formats an atomic amount for the mints we know decimals for (quote assets and the traded token)
+export function formatMintAmount(
+  amount: Decimal | string,
+  mint: string,
+  token: EnhancedToken,
+  extraAssets: QuoteAsset[] = [],
+): string {
+  const atomic = new Decimal(amount);
+  const asset = [...DEFAULT_QUOTE_ASSETS, ...extraAssets].find((candidate) => candidate.mint === mint);
+  if (asset) {
+    return `${atomic.div(10 ** asset.decimals).toDecimalPlaces(6).toString()} ${asset.symbol}`;
+  }
+  if (mint === token.address) {
+    return `${atomic.div(10 ** Number(token.decimals)).toDecimalPlaces(6).toNumber().toLocaleString()} ${token.symbol || "Token"}`;
+  }
+  return `${atomic.toString()} (atomic) ${shortenAddress(mint)}`;
+}
@@ -0,0 +1,73 @@
+import { PublicKey, VersionedTransaction } from "@solana/web3.js";
+import { getWallets } from "@wallet-standard/app";
+import { Wallet, WalletAccount } from "@wallet-standard/base";
+import {
+  StandardConnect,
+  StandardConnectFeature,
+  StandardDisconnect,
+  StandardDisconnectFeature,
+} from "@wallet-standard/features";
+import { SolanaSignTransaction, SolanaSignTransactionFeature } from "@solana/wallet-standard-features";
+import { TransactionSigner } from "@/lib/signer";
+import { getClusterChain } from "@/lib/cluster";
+
+// Trades only run on mainnet, so wallets must be able to sign for it
+export const SOLANA_MAINNET_CHAIN = "solana:mainnet";
+
+export type SolanaStandardWallet = Wallet & {
+  features: StandardConnectFeature & SolanaSignTransactionFeature & Partial<StandardDisconnectFeature>;
+};
+
+export const isSolanaStandardWallet = (wallet: Wallet): wallet is SolanaStandardWallet => {
+  return (
+    StandardConnect in wallet.features &&
+    SolanaSignTransaction in wallet.features &&
+    wallet.chains.includes(SOLANA_MAINNET_CHAIN)
+  );
+};
+
+export const getSolanaWallets = (): SolanaStandardWallet[] => {
+  return getWallets().get().filter(isSolanaStandardWallet);
+};
+
+// Calls back whenever a wallet registers or unregisters itself with the page
+export const onWalletsChanged = (listener: () => void): (() => void) => {
+  const wallets = getWallets();
+  const offRegister = wallets.on("register", listener);
+  const offUnregister = wallets.on("unregister", listener);
+  return () => {
+    offRegister();
+    offUnregister();
+  };
+};
+
+export const connectWallet = async (wallet: SolanaStandardWallet): Promise<WalletAccount> => {
+  const { accounts } = await wallet.features[StandardConnect].connect();
+  const account = accounts.find((candidate) => candidate.chains.includes(SOLANA_MAINNET_CHAIN)) ?? accounts[0];
+  if (!account) {
+    throw new Error(`${wallet.name} did not authorize any accounts`);
+  }
+  return account;
+};
+
+export const disconnectWallet = async (wallet: SolanaStandardWallet): Promise<void> => {
+  // Disconnect is optional in the standard; wallets without it simply forget the session
+  await wallet.features[StandardDisconnect]?.disconnect();
+};
+
+export const createBrowserWalletSigner = (wallet: SolanaStandardWallet, account: WalletAccount): TransactionSigner => ({
+  kind: "browser",
+  label: wallet.name,
+  publicKey: new PublicKey(account.address),
+  signTransaction: async (transaction) => {
+    const [output] = await wallet.features[SolanaSignTransaction].signTransaction({
+      account,
+      transaction: transaction.serialize(),
+      chain: getClusterChain(),
+    });
+    if (!output) {
+      throw new Error(`${wallet.name} did not return a signed transaction`);
+    }
+    return VersionedTransaction.deserialize(output.signedTransaction);
+  },
+});
@@ -0,0 +1,87 @@
+import { Keypair } from "@solana/web3.js";
+import { createKeypair } from "@/lib/solana";
+import {
+  decryptSecret,
+  deleteKeystoreEntry,
+  encryptSecret,
+  getKeystoreEntries,
+  KeystoreEntry,
+  putKeystoreEntry,
+} from "@/lib/keystore";
+
+// Public details of a keystore wallet, safe to keep around while the keystore is locked
+export type StoredWallet = Pick<KeystoreEntry, "id" | "label" | "publicKey" | "addedAt">;
+
+const ACTIVE_WALLET_STORAGE_KEY = "wallets:active";
+
+const toStoredWallet = ({ id, label, publicKey, addedAt }: KeystoreEntry): StoredWallet => ({
+  id,
+  label,
+  publicKey,
+  addedAt,
+});
+
+export const loadWallets = async (): Promise<StoredWallet[]> => {
+  return (await getKeystoreEntries()).map(toStoredWallet);
+};
+
+const addWallet = async (
+  label: string,
+  privateKey: string,
+  passphrase: string,
+  existing: KeystoreEntry[],
+): Promise<KeystoreEntry> => {
+  // createKeypair throws a descriptive error for anything it cannot parse
+  const publicKey = createKeypair(privateKey).publicKey.toBase58();
+  if (existing.some((entry) => entry.publicKey === publicKey)) {
+    throw new Error(`Wallet ${publicKey} is already imported`);
+  }
+
+  const entry: KeystoreEntry = {
+    id: crypto.randomUUID(),
+    label: label.trim() || `Wallet ${existing.length + 1}`,
+    publicKey,
+    addedAt: Date.now(),
+    ...(await encryptSecret(privateKey.trim(), passphrase)),
+  };
+  await putKeystoreEntry(entry);
+  return entry;
+};
+
+export const importWallet = async (
+  label: string,
+  privateKey: string,
+  passphrase: string,
+): Promise<{ wallet: StoredWallet; keypair: Keypair }> => {
+  const entry = await addWallet(label, privateKey, passphrase, await getKeystoreEntries());
+  return { wallet: toStoredWallet(entry), keypair: createKeypair(privateKey) };
+};
+
+export const renameWallet = async (id: string, label: string): Promise<void> => {
+  const entry = (await getKeystoreEntries()).find((candidate) => candidate.id === id);
+  if (!entry) {
+    throw new Error("Wallet not found");
+  }
+  await putKeystoreEntry({ ...entry, label: label.trim() || entry.label });
+};
+
+export const removeWallet = async (id: string): Promise<void> => {
+  await deleteKeystoreEntry(id);
+};
+
+// Decrypts every wallet; an empty keystore accepts any passphrase, which then protects future imports
+export const unlockWallets = async (passphrase: string): Promise<Map<string, Keypair>> => {
+  const keypairs = new Map<string, Keypair>();
+  for (const entry of await getKeystoreEntries()) {
+    keypairs.set(entry.id, createKeypair(await decryptSecret(entry, passphrase)));
+  }
+  return keypairs;
+};
+
+export const loadActiveWalletId = (): string | null => {
+  return localStorage.getItem(ACTIVE_WALLET_STORAGE_KEY);
+};
+
+export const saveActiveWalletId = (id: string) => {
+  localStorage.setItem(ACTIVE_WALLET_STORAGE_KEY, id);
+};
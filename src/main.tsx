@@ -4,6 +4,13 @@ import { BrowserRouter } from 'react-router-dom'
 import App from './App'
 import './globals.css'
 
+// Registers a keypair-backed Wallet Standard wallet so the browser wallet flow can be exercised without an extension
+if (import.meta.env.DEV && import.meta.env.VITE_MOCK_WALLET === 'true') {
+  import('./lib/mock-wallet').then(({ registerMockWallet }) => {
+    console.info('[main] Registered mock wallet', registerMockWallet())
+  })
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
@@ -0,0 +1,63 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DcaSchedulesTable } from "@/components/DcaSchedulesTable";
+import { useDcaSchedules } from "@/hooks/use-dca-schedules";
+
+export default function DcaPage() {
+  const { schedules, loading } = useDcaSchedules();
+
+  const running = schedules.filter((schedule) => schedule.status === "active" || schedule.status === "paused");
+  const finished = schedules.filter((schedule) => schedule.status === "completed" || schedule.status === "cancelled");
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen flex-col items-center p-6 md:p-12">
+        <p>Loading schedules...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-6 md:p-12 space-y-6">
+      <div className="w-full max-w-6xl">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">DCA Schedules</h1>
+            <p className="text-muted-foreground text-sm">
+              Schedules run while the app is open. Start new ones from a token's trade page.
+            </p>
+          </div>
+          <Link to="/" className="text-sm hover:underline">
+            &lt; Back to Home
+          </Link>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Running</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {running.length === 0 ? (
+                <p className="text-center py-6 text-muted-foreground">No active or paused schedules.</p>
+              ) : (
+                <DcaSchedulesTable schedules={running} showToken />
+              )}
+            </CardContent>
+          </Card>
+
+          {finished.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Finished</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DcaSchedulesTable schedules={finished} showToken />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
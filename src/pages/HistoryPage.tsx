@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import Decimal from "decimal.js";
+import { Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePaperTrading } from "@/hooks/use-paper-trading";
+import { useWallet } from "@/hooks/use-wallet";
+import { buildPosition, getUnrealizedPnl } from "@/lib/positions";
+import { getTokenPricesUsd } from "@/lib/prices";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+import { getTrades, TradeRecord, TradeStatus } from "@/lib/trade-history";
+import { cn, shortenAddress } from "@/lib/utils";
+
+// Trades are only executed on Solana mainnet
+const SOLANA_NETWORK_ID = 101;
+
+type DirectionFilter = "all" | "buy" | "sell";
+type StatusFilter = "all" | TradeStatus;
+
+const formatAmount = (atomic: string, decimals: number, symbol: string) => {
+  return `${new Decimal(atomic).div(10 ** decimals).toDecimalPlaces(6).toNumber().toLocaleString()} ${symbol}`;
+};
+
+const formatUsd = (value: number | null) => (value === null ? "—" : `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`);
+
+const pnlClassName = (value: number | null) => {
+  if (value === null || value === 0) return "";
+  return value > 0 ? "text-green-500" : "text-red-500";
+};
+
+const sumOrNull = (values: (number | null)[]) =>
+  values.reduce<number | null>((total, value) => (total === null || value === null ? null : total + value), 0);
+
+const statusClassName: Record<TradeStatus, string> = {
+  submitted: "text-yellow-500",
+  success: "text-green-500",
+  failed: "text-red-500",
+};
+
+export default function HistoryPage() {
+  const { paper: paperMode } = usePaperTrading();
+  const { walletAddress, wallets } = useWallet();
+  const defaultWalletAddress = wallets[0]?.publicKey ?? null;
+  // Opens on the history matching the current trading mode, but either can be browsed
+  const [paper, setPaper] = useState(paperMode);
+  const [trades, setTrades] = useState<TradeRecord[]>([]);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [directionFilter, setDirectionFilter] = useState<DirectionFilter>("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+
+  useEffect(() => {
+    const fetchTrades = async () => {
+      try {
+        setError(null);
+        setTrades(await getTrades(paper, { walletAddress, defaultWalletAddress }));
+      } catch (err) {
+        console.error("Error loading trade history:", err);
+        setError("Failed to load trade history.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrades();
+  }, [paper, walletAddress, defaultWalletAddress]);
+
+  const tokenAddresses = [...new Set(trades.map((trade) => trade.tokenAddress))];
+  const tokenAddressesKey = tokenAddresses.join(",");
+
+  useEffect(() => {
+    if (!tokenAddressesKey) return;
+
+    const fetchPrices = async () => {
+      try {
+        setPrices(await getTokenPricesUsd([...tokenAddressesKey.split(","), SOL_QUOTE_ASSET.mint]));
+      } catch (err) {
+        console.warn("Error loading mark prices:", err);
+      }
+    };
+
+    fetchPrices();
+  }, [tokenAddressesKey]);
+
+  const positions = tokenAddresses.map((tokenAddress) => {
+    const position = buildPosition(trades, tokenAddress);
+    const unrealized = getUnrealizedPnl(position, {
+      tokenPriceUsd: prices[tokenAddress] ?? null,
+      solPriceUsd: prices[SOL_QUOTE_ASSET.mint] ?? null,
+    });
+    return { position, unrealized };
+  });
+  const realizedPnlUsd = sumOrNull(positions.map(({ position }) => position.realizedPnlUsd));
+  const unrealizedPnlUsd = sumOrNull(positions.map(({ unrealized }) => unrealized.unrealizedPnlUsd));
+
+  const filteredTrades = trades.filter((trade) => {
+    if (directionFilter !== "all" && trade.direction !== directionFilter) return false;
+    if (statusFilter !== "all" && trade.status !== statusFilter) return false;
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      trade.tokenSymbol.toLowerCase().includes(query) ||
+      trade.tokenAddress.toLowerCase().includes(query) ||
+      (trade.signature?.toLowerCase().includes(query) ?? false)
+    );
+  });
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen flex-col items-center p-6 md:p-12">
+        <p>Loading trade history...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-6 md:p-12 space-y-6">
+      <div className="w-full max-w-6xl">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+          <h1 className="text-3xl font-bold">Trade History</h1>
+          <Link to="/" className="text-sm hover:underline">
+            &lt; Back to Home
+          </Link>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          {([false, true] as const).map((option) => (
+            <button
+              key={String(option)}
+              onClick={() => setPaper(option)}
+              className={cn(
+                "px-4 py-2 rounded-lg font-medium transition-all",
+                paper === option
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+              )}
+            >
+              {option ? "Paper" : "Live"}
+            </button>
+          ))}
+          {!paper && walletAddress && (
+            <span className="self-center text-sm text-muted-foreground">
+              Wallet {shortenAddress(walletAddress)}
+            </span>
+          )}
+        </div>
+
+        {trades.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Realized PnL</p>
+                <p className={cn("text-2xl font-bold", pnlClassName(realizedPnlUsd))}>{formatUsd(realizedPnlUsd)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Unrealized PnL</p>
+                <p className={cn("text-2xl font-bold", pnlClassName(unrealizedPnlUsd))}>{formatUsd(unrealizedPnlUsd)}</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <input
+                  type="text"
+                  placeholder="Search by symbol, token address, or signature..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                {(["all", "buy", "sell"] as const).map((direction) => (
+                  <button
+                    key={direction}
+                    onClick={() => setDirectionFilter(direction)}
+                    className={cn(
+                      "px-4 py-2 rounded-lg font-medium transition-all capitalize",
+                      directionFilter === direction
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+                    )}
+                  >
+                    {direction}
+                  </button>
+                ))}
+              </div>
+
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                className="px-4 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="all">All statuses</option>
+                <option value="success">Success</option>
+                <option value="failed">Failed</option>
+                <option value="submitted">Submitted</option>
+              </select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Card className="mb-6 border-destructive">
+            <CardContent className="pt-6">
+              <p className="text-destructive">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!error && (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {filteredTrades.length} {paper ? "Paper " : ""}{filteredTrades.length === 1 ? "Trade" : "Trades"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {filteredTrades.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>No trades found.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Token</TableHead>
+                        <TableHead>Side</TableHead>
+                        <TableHead>Paid</TableHead>
+                        <TableHead>Received</TableHead>
+                        <TableHead>Fees</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Tx</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredTrades.map((trade) => (
+                        <TableRow key={trade.id}>
+                          <TableCell>{new Date(trade.timestamp).toLocaleString()}</TableCell>
+                          <TableCell>
+                            <Link
+                              to={`/trade/${SOLANA_NETWORK_ID}/${trade.tokenAddress}`}
+                              className="font-mono hover:underline"
+                            >
+                              {trade.tokenSymbol}
+                            </Link>
+                          </TableCell>
+                          <TableCell
+                            className={cn(
+                              "capitalize",
+                              trade.direction === "buy" ? "text-green-500" : "text-red-500"
+                            )}
+                          >
+                            {trade.direction}
+                          </TableCell>
+                          <TableCell>
+                            {formatAmount(trade.actualInputAmount ?? trade.quotedInputAmount, trade.inputDecimals, trade.inputSymbol)}
+                            {trade.actualInputAmount === null && (
+                              <span className="block text-xs text-muted-foreground">quoted</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {formatAmount(trade.actualOutputAmount ?? trade.quotedOutputAmount, trade.outputDecimals, trade.outputSymbol)}
+                            {trade.actualOutputAmount === null && (
+                              <span className="block text-xs text-muted-foreground">quoted</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {trade.feeBps} bps
+                            <span className="block">
+                              {formatAmount(trade.prioritizationFeeLamports.toString(), 9, "SOL")} priority
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <span className={cn("capitalize", statusClassName[trade.status])} title={trade.error ?? undefined}>
+                              {trade.status}
+                            </span>
+                            {trade.slot && (
+                              <span className="block text-xs text-muted-foreground">Slot {trade.slot}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {trade.signature ? (
+                              <a
+                                href={`https://solscan.io/tx/${trade.signature}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-mono text-sm hover:underline"
+                              >
+                                {shortenAddress(trade.signature)}
+                              </a>
+                            ) : (
+                              paper ? <span className="text-xs text-yellow-500">Paper</span> : "-"
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
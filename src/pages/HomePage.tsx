@@ -75,7 +75,7 @@ export default function HomePage() {
           <br />
           Discover, analyze, and track tokens across various networks.
         </p>
-        <div className="flex justify-center mb-6">
+        <div className="flex flex-wrap justify-center gap-4 mb-6">
           <Link
             to="/tokens"
             className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors font-medium"
@@ -83,6 +83,36 @@ export default function HomePage() {
             Browse All Tokens
             <ArrowRight className="w-4 h-4" />
           </Link>
+          <Link
+            to="/portfolio"
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 border border-border transition-colors font-medium"
+          >
+            Portfolio
+          </Link>
+          <Link
+            to="/history"
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 border border-border transition-colors font-medium"
+          >
+            Trade History
+          </Link>
+          <Link
+            to="/dca"
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 border border-border transition-colors font-medium"
+          >
+            DCA
+          </Link>
+          <Link
+            to="/maintenance"
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 border border-border transition-colors font-medium"
+          >
+            Reclaim Rent
+          </Link>
+          <Link
+            to="/settings"
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 border border-border transition-colors font-medium"
+          >
+            Settings
+          </Link>
         </div>
       </div>
 
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import Decimal from "decimal.js";
+import { RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useRentReclaim } from "@/hooks/use-rent-reclaim";
+import { ReclaimKind, sumRecoverableLamports } from "@/lib/rent-reclaim";
+import { SOL_QUOTE_ASSET } from "@/lib/quote-assets";
+import { cn, shortenAddress } from "@/lib/utils";
+
+const DEFAULT_DUST_THRESHOLD_USD = 1;
+
+const kindLabel: Record<ReclaimKind, string> = {
+  empty: "Empty",
+  wsol: "Wrapped SOL",
+  dust: "Dust (burn)",
+};
+
+const formatSol = (lamports: Decimal.Value) => {
+  return `${new Decimal(lamports).div(10 ** SOL_QUOTE_ASSET.decimals).toFixed(6)} SOL`;
+};
+
+export default function MaintenancePage() {
+  const [includeDust, setIncludeDust] = useState(false);
+  const [dustInput, setDustInput] = useState(DEFAULT_DUST_THRESHOLD_USD.toString());
+  const [dustThresholdUsd, setDustThresholdUsd] = useState(DEFAULT_DUST_THRESHOLD_USD);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [submitting, setSubmitting] = useState(false);
+
+  const { candidates, walletAddress, loading, error, refreshCandidates, reclaim } = useRentReclaim(
+    includeDust ? dustThresholdUsd : 0
+  );
+
+  // Empty and wSOL accounts are safe to close, dust has to be opted into one by one
+  useEffect(() => {
+    setSelected(new Set(candidates.filter((c) => c.kind !== "dust").map((c) => c.account.address)));
+  }, [candidates]);
+
+  const selectedCandidates = candidates.filter((candidate) => selected.has(candidate.account.address));
+  const recoverable = sumRecoverableLamports(selectedCandidates);
+
+  const toggleSelected = (address: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(address)) {
+        next.delete(address);
+      } else {
+        next.add(address);
+      }
+      return next;
+    });
+  };
+
+  const applyDustThreshold = () => {
+    const value = parseFloat(dustInput);
+    if (isNaN(value) || value < 0) {
+      toast.error("Dust threshold must be a positive USD amount");
+      return;
+    }
+    setDustThresholdUsd(value);
+  };
+
+  const handleReclaim = async () => {
+    if (selectedCandidates.length === 0) return;
+
+    setSubmitting(true);
+    const toastId = toast.loading("Building transactions...");
+    try {
+      const results = await reclaim(selectedCandidates, (index, total) => {
+        toast.loading(`Sending transaction ${index + 1} of ${total}...`, { id: toastId });
+      });
+
+      const failed = results.filter((result) => result.error !== null);
+      if (failed.length === 0) {
+        toast.success(`Closed ${selectedCandidates.length} accounts, recovered ${formatSol(recoverable)}`, { id: toastId });
+      } else {
+        toast.error(`${failed.length} of ${results.length} transactions failed: ${failed[0].error}`, { id: toastId });
+      }
+    } catch (err) {
+      toast.error((err as Error).message, { id: toastId });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-6 md:p-12 space-y-6">
+      <div className="w-full max-w-6xl">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Wallet Maintenance</h1>
+            {walletAddress && (
+              <p className="text-muted-foreground font-mono text-sm">{walletAddress}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={refreshCandidates}
+              disabled={loading || submitting}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
+              Rescan
+            </button>
+            <Link to="/" className="text-sm hover:underline">
+              &lt; Back to Home
+            </Link>
+          </div>
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeDust}
+                  onChange={(e) => setIncludeDust(e.target.checked)}
+                />
+                Include dust balances worth less than
+              </label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={dustInput}
+                  onChange={(e) => setDustInput(e.target.value)}
+                  onBlur={applyDustThreshold}
+                  onKeyDown={(e) => e.key === "Enter" && applyDustThreshold()}
+                  disabled={!includeDust}
+                  className="w-28 px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Dust is burned before its account is closed. Tokens without a price are never listed as dust.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Card className="mb-6 border-destructive">
+            <CardContent className="pt-6">
+              <p className="text-destructive">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!error && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+                <CardTitle>Recoverable: {formatSol(recoverable)}</CardTitle>
+                <button
+                  onClick={handleReclaim}
+                  disabled={submitting || loading || selectedCandidates.length === 0}
+                  className="px-4 py-2 rounded-lg font-semibold transition-all bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Close {selectedCandidates.length} {selectedCandidates.length === 1 ? "Account" : "Accounts"}
+                </button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading && candidates.length === 0 ? (
+                <p className="text-center py-12 text-muted-foreground">Scanning token accounts...</p>
+              ) : candidates.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>No accounts to reclaim.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]" />
+                        <TableHead>Account</TableHead>
+                        <TableHead>Token</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                        <TableHead className="text-right">Recoverable</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {candidates.map((candidate) => (
+                        <TableRow key={candidate.account.address}>
+                          <TableCell>
+                            <input
+                              type="checkbox"
+                              checked={selected.has(candidate.account.address)}
+                              onChange={() => toggleSelected(candidate.account.address)}
+                              disabled={submitting}
+                            />
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{shortenAddress(candidate.account.address)}</TableCell>
+                          <TableCell>{candidate.symbol || shortenAddress(candidate.account.mint)}</TableCell>
+                          <TableCell className={cn(candidate.kind === "dust" && "text-red-500")}>
+                            {kindLabel[candidate.kind]}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {candidate.account.amount.div(10 ** candidate.account.decimals).toNumber().toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {candidate.valueUsd === null ? "—" : `$${candidate.valueUsd.toFixed(2)}`}
+                          </TableCell>
+                          <TableCell className="text-right">{formatSol(candidate.recoverableLamports)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -2,6 +2,7 @@ import { Codex } from "@codex-data/sdk";
 import { TokenRankingAttribute, RankingDirection, TokenFilterResult } from "@codex-data/sdk/dist/sdk/generated/graphql";
 import { Link, useParams } from "react-router-dom";
 import { useEffect, useState } from "react";
+import { getConfig } from "@/lib/config";
 
 export default function NetworkPage() {
   const { networkId } = useParams<{ networkId: string }>();
@@ -20,9 +21,9 @@ export default function NetworkPage() {
     }
 
     const fetchData = async () => {
-      const apiKey = import.meta.env.VITE_CODEX_API_KEY;
+      const apiKey = getConfig().codexApiKey;
       if (!apiKey) {
-        console.warn("VITE_CODEX_API_KEY environment variable is not set.");
+        console.warn("Codex API key is not set. Add it on the Settings page.");
       }
       const codexClient = new Codex(apiKey || '');
 
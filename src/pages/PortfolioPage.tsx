@@ -0,0 +1,147 @@
+import { Link } from "react-router-dom";
+import { ArrowRight, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { cn, shortenAddress } from "@/lib/utils";
+
+// Solana mainnet network ID
+const SOLANA_NETWORK_ID = 101;
+
+const formatUsd = (value: number | null) => {
+  if (value === null) return "—";
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatPct = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(2)}%`);
+
+export default function PortfolioPage() {
+  const { holdings, totalValueUsd, walletAddress, loading, error, refreshPortfolio } = usePortfolio();
+
+  if (loading && holdings.length === 0) {
+    return (
+      <main className="flex min-h-screen flex-col items-center p-6 md:p-12">
+        <p>Loading portfolio...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-6 md:p-12 space-y-6">
+      <div className="w-full max-w-6xl">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Portfolio</h1>
+            {walletAddress && (
+              <p className="text-muted-foreground font-mono text-sm">{walletAddress}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={refreshPortfolio}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
+              Refresh
+            </button>
+            <Link to="/" className="text-sm hover:underline">
+              &lt; Back to Home
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <Card className="mb-6 border-destructive">
+            <CardContent className="pt-6">
+              <p className="text-destructive">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!error && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Total Value: {formatUsd(totalValueUsd)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {holdings.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>This wallet holds no tokens.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[60px]">Icon</TableHead>
+                        <TableHead>Token</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                        <TableHead className="text-right">24h</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                        <TableHead className="w-[100px] text-right">Action</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {holdings.map((holding) => (
+                        <TableRow key={holding.mint}>
+                          <TableCell>
+                            {holding.imageUrl ? (
+                              <img
+                                src={holding.imageUrl}
+                                alt={`${holding.name || "Token"} icon`}
+                                width={32}
+                                height={32}
+                                className="rounded-full"
+                              />
+                            ) : (
+                              <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-sm font-semibold">
+                                {holding.symbol ? holding.symbol[0] : "T"}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{holding.symbol || shortenAddress(holding.mint)}</div>
+                            <div className="text-xs text-muted-foreground">{holding.name || holding.mint}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{holding.amount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">
+                            {holding.priceUsd === null ? "—" : `$${holding.priceUsd.toPrecision(4)}`}
+                          </TableCell>
+                          <TableCell className="text-right">{formatUsd(holding.valueUsd)}</TableCell>
+                          <TableCell
+                            className={cn(
+                              "text-right",
+                              holding.change24 !== null && holding.change24 > 0 && "text-green-500",
+                              holding.change24 !== null && holding.change24 < 0 && "text-red-500"
+                            )}
+                          >
+                            {formatPct(holding.change24)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatPct(holding.shareOfTotal)}</TableCell>
+                          <TableCell className="text-right">
+                            {!holding.isNative && (
+                              <Link
+                                to={`/trade/${SOLANA_NETWORK_ID}/${holding.mint}`}
+                                className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+                              >
+                                Trade
+                                <ArrowRight className="w-3 h-3" />
+                              </Link>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { RpcStatusPanel } from "@/components/RpcStatusPanel";
+import { useConfig } from "@/hooks/use-config";
+import { testCodexConnection } from "@/lib/codex";
+import { AppConfig, ConfigKey, getConfigOverrides, getEnvConfig, resetConfig, saveConfig, validateConfig } from "@/lib/config";
+import { testRpcConnection } from "@/lib/solana";
+import { cn } from "@/lib/utils";
+
+const FIELDS: { key: ConfigKey; label: string; placeholder: string; secret: boolean; description: string }[] = [
+  {
+    key: "codexApiKey",
+    label: "Codex API Key",
+    placeholder: "Codex API key",
+    secret: true,
+    description: "Used for token data, charts and USD prices.",
+  },
+  {
+    key: "rpcUrl",
+    label: "Mainnet RPC URL",
+    placeholder: "https://mainnet.helius-rpc.com/?api-key=...",
+    secret: true,
+    description: "Used for balances, simulation and confirmation on Mainnet. Other clusters are picked in the header.",
+  },
+  {
+    key: "fallbackRpcUrls",
+    label: "Fallback RPC URLs",
+    placeholder: "https://rpc-one.example.com, https://rpc-two.example.com",
+    secret: true,
+    description: "Comma-separated. Reads fail over to these and transactions are broadcast to them as well.",
+  },
+  {
+    key: "jupiterReferralAccount",
+    label: "Jupiter Referral Account",
+    placeholder: "Referral account address",
+    secret: false,
+    description: "Receives the platform fee on every trade. Trading is disabled until it is set.",
+  },
+];
+
+export default function SettingsPage() {
+  const config = useConfig();
+  const [form, setForm] = useState<AppConfig>(config);
+  const [testing, setTesting] = useState<"codex" | "rpc" | null>(null);
+
+  const envConfig = getEnvConfig();
+  const overrides = getConfigOverrides();
+  const errors = validateConfig(form);
+  const dirty = FIELDS.some(({ key }) => form[key] !== config[key]);
+
+  const handleSave = () => {
+    try {
+      saveConfig(form);
+      toast.success("Settings saved");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Discard all local overrides and use the build-time defaults?")) {
+      return;
+    }
+    resetConfig();
+    setForm(getEnvConfig());
+    toast.success("Settings reset to defaults");
+  };
+
+  const handleTestCodex = async () => {
+    setTesting("codex");
+    try {
+      const { networks, latencyMs } = await testCodexConnection(form.codexApiKey);
+      toast.success(`Codex connected: ${networks} networks in ${latencyMs} ms`);
+    } catch (error) {
+      toast.error(`Codex connection failed: ${(error as Error).message}`);
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const handleTestRpc = async () => {
+    setTesting("rpc");
+    try {
+      const { version, slot, latencyMs } = await testRpcConnection(form.rpcUrl);
+      toast.success(`RPC connected: solana-core ${version}, slot ${slot.toLocaleString()} in ${latencyMs} ms`);
+    } catch (error) {
+      toast.error(`RPC connection failed: ${(error as Error).message}`);
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-6 md:p-12 space-y-6">
+      <div className="w-full max-w-6xl">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <Link to="/" className="text-sm hover:underline">
+            &lt; Back to Home
+          </Link>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Configuration</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {FIELDS.map(({ key, label, placeholder, secret, description }) => (
+              <div key={key} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <label htmlFor={key} className="text-sm font-medium">
+                    {label}
+                  </label>
+                  <span className="text-xs text-muted-foreground">
+                    {overrides[key] ? "Overridden locally" : envConfig[key] ? "From environment" : "Not set"}
+                  </span>
+                </div>
+                <div className="flex flex-col md:flex-row gap-2">
+                  <input
+                    id={key}
+                    type={secret ? "password" : "text"}
+                    placeholder={placeholder}
+                    value={form[key]}
+                    onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                    autoComplete="off"
+                    className={cn(
+                      "flex-1 px-4 py-2 border border-border rounded-lg bg-background text-foreground font-mono focus:outline-none focus:ring-2 focus:ring-primary",
+                      errors[key] && "border-red-500"
+                    )}
+                  />
+                  {key === "codexApiKey" && (
+                    <button
+                      onClick={handleTestCodex}
+                      disabled={!form.codexApiKey || testing !== null}
+                      className="px-4 py-2 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {testing === "codex" ? "Testing..." : "Test Connection"}
+                    </button>
+                  )}
+                  {key === "rpcUrl" && (
+                    <button
+                      onClick={handleTestRpc}
+                      disabled={!form.rpcUrl || !!errors.rpcUrl || testing !== null}
+                      className="px-4 py-2 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {testing === "rpc" ? "Testing..." : "Test Connection"}
+                    </button>
+                  )}
+                </div>
+                {errors[key] ? (
+                  <p className="text-xs text-red-500">{errors[key]}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                )}
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={!dirty || Object.keys(errors).length > 0}
+                className="px-4 py-2 rounded-lg font-semibold transition-all bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+              <button
+                onClick={handleReset}
+                disabled={Object.keys(overrides).length === 0}
+                className="px-4 py-2 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Reset to Defaults
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Overrides are stored in this browser and take precedence over the values the app was built with.
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="mb-6">
+          <RpcStatusPanel />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Wallet Keys</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Private keys are kept in the encrypted keystore rather than in settings.{" "}
+              <Link to="/wallets" className="text-foreground hover:underline">
+                Manage wallets
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ArrowRight, TrendingUp, Search } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getConfig } from "@/lib/config";
 
 // Solana mainnet network ID
 const SOLANA_NETWORK_ID = 101;
@@ -23,9 +24,9 @@ export default function TokenListPage() {
 
   useEffect(() => {
     const fetchData = async () => {
-      const apiKey = import.meta.env.VITE_CODEX_API_KEY;
+      const apiKey = getConfig().codexApiKey;
       if (!apiKey) {
-        console.warn("VITE_CODEX_API_KEY environment variable is not set.");
+        console.warn("Codex API key is not set. Add it on the Settings page.");
       }
       const codexClient = new Codex(apiKey || "");
 
@@ -24,6 +24,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { getConfig } from "@/lib/config";
 
 type TokenEvent = {
   id: string;
@@ -58,9 +59,9 @@ export default function TokenPage() {
     }
 
     const fetchData = async () => {
-      const apiKey = import.meta.env.VITE_CODEX_API_KEY;
+      const apiKey = getConfig().codexApiKey;
       if (!apiKey) {
-        console.warn("VITE_CODEX_API_KEY not set.");
+        console.warn("Codex API key is not set. Add it on the Settings page.");
       }
       const codexClient = new Codex(apiKey || "");
 
@@ -1,9 +1,11 @@
 import { useEffect, useState, Suspense } from "react";
-import { useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import { Codex } from "@codex-data/sdk";
 import { EnhancedToken } from "@codex-data/sdk/dist/sdk/generated/graphql";
 import { TokenChart, ChartDataPoint } from "@/components/TokenChart";
 import { FloatingTradingPanel } from "@/components/FloatingTradingPanel";
+import { LimitOrdersPanel } from "@/components/LimitOrdersPanel";
+import { DcaPanel } from "@/components/DcaPanel";
 import {
   TradingPanelProvider,
   useTradingPanel,
@@ -16,6 +18,7 @@ import {
 } from "@/components/ui/card";
 import { ShoppingCart } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getConfig } from "@/lib/config";
 
 const CHART_RESOLUTION = "30";
 const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
@@ -60,9 +63,9 @@ function TradePageContent() {
     }
 
     const fetchData = async () => {
-      const apiKey = import.meta.env.VITE_CODEX_API_KEY;
+      const apiKey = getConfig().codexApiKey;
       if (!apiKey) {
-        console.warn("VITE_CODEX_API_KEY not set.");
+        console.warn("Codex API key is not set. Add it on the Settings page.");
       }
       const codexClient = new Codex(apiKey || "");
 
@@ -143,7 +146,7 @@ function TradePageContent() {
   ): string => {
     // Check if API key is missing
     if (!apiKey) {
-      return "VITE_CODEX_API_KEY is not set. Please configure it in your .env file.";
+      return "The Codex API key is not set. Please add it on the Settings page.";
     }
 
     // Handle GraphQL errors
@@ -190,10 +193,10 @@ function TradePageContent() {
             <ul className="list-disc list-inside space-y-1 text-left">
               <li>
                 检查{" "}
-                <code className="bg-muted px-1 rounded">
-                  VITE_CODEX_API_KEY
-                </code>{" "}
-                是否在 .env 文件中正确配置
+                <Link to="/settings" className="underline">
+                  设置页面
+                </Link>{" "}
+                中的 Codex API Key 是否正确配置
               </li>
               <li>
                 确认代币地址格式正确（Solana 地址通常是 32-44 个字符的 base58
@@ -284,6 +287,10 @@ function TradePageContent() {
               </div>
             </div>
           </Suspense>
+
+          {details && <LimitOrdersPanel token={details} />}
+
+          {details && <DcaPanel token={details} />}
         </div>
       </div>
 
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useWallet } from "@/hooks/use-wallet";
+import { cn } from "@/lib/utils";
+
+export default function WalletsPage() {
+  const { wallets, activeWallet, locked, unlock, lock, importWallet, renameWallet, removeWallet, setActiveWallet } = useWallet();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [label, setLabel] = useState("");
+  const [privateKey, setPrivateKey] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState("");
+
+  // With no wallets stored yet, unlocking sets the passphrase every later import is encrypted with
+  const creatingKeystore = wallets.length === 0;
+
+  const handleUnlock = async () => {
+    if (creatingKeystore && passphrase !== confirmPassphrase) {
+      toast.error("Passphrases do not match");
+      return;
+    }
+
+    setUnlocking(true);
+    try {
+      await unlock(passphrase);
+      setPassphrase("");
+      setConfirmPassphrase("");
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      await importWallet(label, privateKey);
+      setLabel("");
+      setPrivateKey("");
+      toast.success("Wallet imported");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    try {
+      await renameWallet(id, editingLabel);
+      setEditingId(null);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleRemove = async (id: string, walletLabel: string) => {
+    if (!window.confirm(`Remove wallet "${walletLabel}"? Its private key will be deleted from this browser.`)) {
+      return;
+    }
+    try {
+      await removeWallet(id);
+      toast.success("Wallet removed");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-6 md:p-12 space-y-6">
+      <div className="w-full max-w-6xl">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+          <h1 className="text-3xl font-bold">Wallets</h1>
+          <div className="flex items-center gap-4">
+            {!locked && (
+              <button
+                onClick={lock}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm"
+              >
+                Lock
+              </button>
+            )}
+            <Link to="/" className="text-sm hover:underline">
+              &lt; Back to Home
+            </Link>
+          </div>
+        </div>
+
+        {locked && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>{creatingKeystore ? "Create Keystore" : "Unlock Keystore"}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col md:flex-row gap-4">
+                <input
+                  type="password"
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && !creatingKeystore && handleUnlock()}
+                  autoComplete="current-password"
+                  className="flex-1 px-4 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                {creatingKeystore && (
+                  <input
+                    type="password"
+                    placeholder="Confirm passphrase"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+                    autoComplete="new-password"
+                    className="flex-1 px-4 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                )}
+                <button
+                  onClick={handleUnlock}
+                  disabled={!passphrase || unlocking}
+                  className="px-4 py-2 rounded-lg font-semibold transition-all bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {unlocking ? "Unlocking..." : creatingKeystore ? "Create" : "Unlock"}
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Keys are encrypted with this passphrase and stay decrypted in memory until the keystore is locked or
+                left idle for 15 minutes. A forgotten passphrase cannot be recovered.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!locked && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Import Wallet</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col md:flex-row gap-4">
+                <input
+                  type="text"
+                  placeholder="Label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  className="md:w-48 px-4 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <input
+                  type="password"
+                  placeholder="Private key (base58, JSON array or hex)"
+                  value={privateKey}
+                  onChange={(e) => setPrivateKey(e.target.value)}
+                  autoComplete="off"
+                  className="flex-1 px-4 py-2 border border-border rounded-lg bg-background text-foreground font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <button
+                  onClick={handleImport}
+                  disabled={!privateKey}
+                  className="px-4 py-2 rounded-lg font-semibold transition-all bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Import
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Imported keys are encrypted with your keystore passphrase and stored in this browser.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {wallets.length} {wallets.length === 1 ? "Wallet" : "Wallets"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {wallets.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <p>No wallets yet. Create the keystore, then import a private key.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Label</TableHead>
+                      <TableHead>Address</TableHead>
+                      <TableHead>Added</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {wallets.map((wallet) => {
+                      const isActive = wallet.id === activeWallet?.id;
+                      return (
+                        <TableRow key={wallet.id}>
+                          <TableCell>
+                            {editingId === wallet.id ? (
+                              <input
+                                type="text"
+                                value={editingLabel}
+                                onChange={(e) => setEditingLabel(e.target.value)}
+                                onBlur={() => handleRename(wallet.id)}
+                                onKeyDown={(e) => e.key === "Enter" && handleRename(wallet.id)}
+                                autoFocus
+                                className="px-2 py-1 border border-border rounded bg-background text-foreground"
+                              />
+                            ) : (
+                              <span className={cn("font-medium", isActive && "text-green-500")}>
+                                {wallet.label}
+                                {isActive && " (active)"}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{wallet.publicKey}</TableCell>
+                          <TableCell>{new Date(wallet.addedAt).toLocaleString()}</TableCell>
+                          <TableCell className="text-right space-x-2">
+                            {!isActive && (
+                              <button
+                                onClick={() => setActiveWallet(wallet.id)}
+                                className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+                              >
+                                Use
+                              </button>
+                            )}
+                            <button
+                              onClick={() => {
+                                setEditingId(wallet.id);
+                                setEditingLabel(wallet.label);
+                              }}
+                              className="px-3 py-1.5 rounded-lg bg-muted/30 text-muted-foreground hover:bg-muted/50 transition-colors text-sm"
+                            >
+                              Rename
+                            </button>
+                            <button
+                              onClick={() => handleRemove(wallet.id, wallet.label)}
+                              className="px-3 py-1.5 rounded-lg bg-red-500/10 text-red-500 hover:bg-red-500/20 transition-colors text-sm"
+                            >
+                              Remove
+                            </button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -1,10 +1,15 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_CODEX_API_KEY: string
+  // Defaults only, read through src/lib/config.ts so the settings page can override them
+  readonly VITE_CODEX_API_KEY?: string
+  readonly VITE_HELIUS_RPC_URL?: string
+  readonly VITE_FALLBACK_RPC_URLS?: string
+  readonly VITE_JUPITER_REFERRAL_ACCOUNT?: string
+  readonly VITE_MOCK_WALLET?: string
   // more env variables...
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv
-}
\ No newline at end of file
+}